@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { ChessComProxyError, fetchChessCom } from "@/lib/chess-com-proxy"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params
+
+  try {
+    return NextResponse.json(await fetchChessCom(path))
+  } catch (error) {
+    if (error instanceof ChessComProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Chess.com proxy failed:", error)
+    return NextResponse.json({ error: "Could not reach Chess.com" }, { status: 502 })
+  }
+}
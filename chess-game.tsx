@@ -1,9 +1,28 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useMemo, type FormEvent } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Clock, Volume2, VolumeX, BookOpen, Palette } from "lucide-react"
+import {
+  Clock,
+  Volume2,
+  VolumeX,
+  BookOpen,
+  Palette,
+  Crown,
+  Flag,
+  Handshake,
+  Copy,
+  FileInput,
+  Download,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Play,
+  Pause,
+} from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Dialog,
@@ -16,51 +35,76 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { useEngine } from "@/hooks/use-engine"
+import {
+  allotTime,
+  evaluate,
+  evaluationBreakdown,
+  EVALUATION_TERMS,
+  loadOpeningBook,
+  MAX_PHASE,
+  type EvaluationBreakdown,
+  type EvaluationTerm,
+  type OpeningBook,
+  type SearchInfo,
+} from "@/lib/engine"
+import {
+  DEFAULT_FILTERS,
+  filterGames,
+  GAME_SOURCES,
+  type GameFilters,
+  type GamePeriod,
+  type GameSourceId,
+  type ImportedGame,
+  type ImportedPlayer,
+} from "@/lib/game-sources"
+import {
+  drawBy,
+  FenError,
+  formatPgnDate,
+  formatResult,
+  Game,
+  INITIAL_FEN,
+  PROMOTION_PIECES,
+  outcomeFromClaim,
+  parseFen,
+  parsePgn,
+  parseTimeControl,
+  parseSan,
+  pgnToGame,
+  PgnError,
+  SanError,
+  squareName,
+  timeoutOutcome,
+  toFen,
+  winFor,
+  writePgn,
+  type DrawClaim,
+  type Move,
+  type PgnGame,
+  type PieceColor,
+  type PieceType,
+  type Square,
+  Position,
+  zobristKey,
+} from "@/lib/chess"
 
-type PieceType = "pawn" | "rook" | "knight" | "bishop" | "queen" | "king"
-type PieceColor = "white" | "black"
 type Difficulty = "easy" | "medium" | "hard" | "grandmaster"
 type BoardTheme = "classic" | "wood" | "emerald" | "coral" | "midnight" | "purple"
 
-interface Piece {
-  type: PieceType
-  color: PieceColor
-}
-
-interface Position {
-  row: number
-  col: number
-}
-
-interface Move {
-  from: Position
-  to: Position
-  piece: Piece
-  capturedPiece?: Piece
-  notation?: string
-}
-
 interface GameTimer {
   white: number // seconds remaining
   black: number // seconds remaining
 }
 
-interface ChessComGame {
-  url: string
-  pgn: string
-  time_control: string
-  end_time: number
-  rated: boolean
-  white: {
-    username: string
-    rating: number
-    result: string
-  }
-  black: {
-    username: string
-    rating: number
-    result: string
-  }
+// A Chess.com game being stepped through on the board
+interface Replay {
+  record: PgnGame
+  game: Game
+  ply: number
 }
 
 interface ThemeColors {
@@ -79,8 +123,8 @@ interface ThemeColors {
 }
 
 interface OpeningMove {
-  from: Position
-  to: Position
+  from: Square
+  to: Square
 }
 
 interface Opening {
@@ -194,57 +238,78 @@ const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
   },
 }
 
-const INITIAL_BOARD: (Piece | null)[][] = [
-  [
-    { type: "rook", color: "black" },
-    { type: "knight", color: "black" },
-    { type: "bishop", color: "black" },
-    { type: "queen", color: "black" },
-    { type: "king", color: "black" },
-    { type: "bishop", color: "black" },
-    { type: "knight", color: "black" },
-    { type: "rook", color: "black" },
-  ],
-  Array(8).fill({ type: "pawn", color: "black" }),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill({ type: "pawn", color: "white" }),
-  [
-    { type: "rook", color: "white" },
-    { type: "knight", color: "white" },
-    { type: "bishop", color: "white" },
-    { type: "queen", color: "white" },
-    { type: "king", color: "white" },
-    { type: "bishop", color: "white" },
-    { type: "knight", color: "white" },
-    { type: "rook", color: "white" },
-  ],
-]
+const INITIAL_CLOCK_SECONDS = 180 // 3 minutes each
+const CLOCK_INCREMENT_SECONDS = 0 // added to the mover's clock after each move
+
+const GAMES_PER_PAGE = 10
+
+const formatPlayer = (player: ImportedPlayer): string =>
+  player.rating ? `${player.username} (${player.rating})` : player.username
+
+const EVALUATION_TERM_LABELS: Record<EvaluationTerm, string> = {
+  material: "Material",
+  placement: "Piece placement",
+  mobility: "Mobility",
+  pawnStructure: "Pawn structure",
+  kingSafety: "King safety",
+}
 
-// Difficulty settings
-const DIFFICULTY_SETTINGS = {
+// Centipawns as pawns, always signed
+const formatCentipawns = (value: number): string =>
+  `${value > 0 ? "+" : value < 0 ? "-" : ""}${(Math.abs(value) / 100).toFixed(2)}`
+
+// A term's net value, from black's point of view like the evaluation bar
+const netTermScore = (breakdown: EvaluationBreakdown, term: EvaluationTerm): number =>
+  breakdown.terms[term].black - breakdown.terms[term].white
+
+// How well the search is pruning, shown on hover over the thinking indicator
+const describeStats = (info: SearchInfo | null): string | undefined => {
+  if (!info) return undefined
+  const { betaCutoffs, firstMoveCutoffs, hashCutoffs } = info.stats
+  const firstMoveRate = betaCutoffs ? Math.round((100 * firstMoveCutoffs) / betaCutoffs) : 0
+  return `${firstMoveRate}% of cutoffs on the first move, ${hashCutoffs.toLocaleString()} transposition table cutoffs`
+}
+
+// Difficulty settings. Searches are cut short by whichever comes first of the depth, the node
+// count and the thinking time allotted from the computer's clock. The computer plays from the
+// opening book until `bookDepth` plies into the game.
+const DIFFICULTY_SETTINGS: Record<
+  Difficulty,
+  { name: string; depth: number; nodes?: number; randomFactor: number; bookDepth: number }
+> = {
   easy: {
+    name: "Newbie",
     depth: 2,
+    nodes: 5000,
+    bookDepth: 4,
     randomFactor: 0.3, // 30% chance to make a suboptimal move
   },
   medium: {
+    name: "Intermediate",
     depth: 3,
+    nodes: 50000,
+    bookDepth: 8,
     randomFactor: 0.15, // 15% chance to make a suboptimal move
   },
   hard: {
-    depth: 4,
+    name: "Expert",
+    depth: 5,
+    bookDepth: 12,
     randomFactor: 0.05, // 5% chance to make a suboptimal move
   },
   grandmaster: {
-    depth: 5,
+    name: "Grandmaster",
+    depth: 64, // as deep as the clock allows
+    bookDepth: 16,
     randomFactor: 0, // Always makes the best move
   },
 }
 
-// Opening book - simplified version with common openings
-const OPENING_BOOK: Opening[] = [
+// Polyglot book the computer chooses its opening moves from, built with `pnpm book`
+const OPENING_BOOK_URL = "/books/openings.bin"
+
+// Common openings, for naming the one being played
+const OPENINGS: Opening[] = [
   {
     name: "Queen's Gambit",
     moves: [
@@ -290,25 +355,80 @@ const OPENING_BOOK: Opening[] = [
   },
 ]
 
+// The name of the opening for every position along the lines above, keyed by Zobrist hash so a
+// line is recognised however its position was reached. Where lines share a position, the first
+// listed names it.
+const OPENING_POSITIONS = (() => {
+  const positions = new Map<string, string>()
+  for (const opening of OPENINGS) {
+    let position = Position.initial()
+    for (const openingMove of opening.moves) {
+      position = position.play(position.findMove(openingMove.from, openingMove.to)!)
+      const key = zobristKey(position.hash)
+      if (!positions.has(key)) positions.set(key, opening.name)
+    }
+  }
+  return positions
+})()
+
 export default function Component() {
-  const [board, setBoard] = useState<(Piece | null)[][]>(INITIAL_BOARD)
-  const [selectedSquare, setSelectedSquare] = useState<Position | null>(null)
-  const [currentPlayer, setCurrentPlayer] = useState<PieceColor>("white")
-  const [gameStatus, setGameStatus] = useState<"playing" | "check" | "checkmate" | "stalemate">("playing")
-  const [moveHistory, setMoveHistory] = useState<Move[]>([])
-  const [timer, setTimer] = useState<GameTimer>({ white: 180, black: 180 }) // 3 minutes each
+  const [game, setGame] = useState<Game>(() => Game.fromPosition())
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null)
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null)
+  const [autoQueen, setAutoQueen] = useState(false)
+  const [drawOfferDeclined, setDrawOfferDeclined] = useState(false)
+  const [isFenDialogOpen, setIsFenDialogOpen] = useState(false)
+  const [fenInput, setFenInput] = useState("")
+  const [fenError, setFenError] = useState<string | null>(null)
+  const [moveInput, setMoveInput] = useState("")
+  const [moveInputError, setMoveInputError] = useState<string | null>(null)
+  const [timer, setTimer] = useState<GameTimer>({ white: INITIAL_CLOCK_SECONDS, black: INITIAL_CLOCK_SECONDS })
+  const [clockHistory, setClockHistory] = useState<number[]>([]) // mover's time left after each ply
+  const [gameStartedAt, setGameStartedAt] = useState(() => new Date())
   const [isTimerRunning, setIsTimerRunning] = useState(false)
   const [soundEnabled, setSoundEnabled] = useState(true)
   const [difficulty, setDifficulty] = useState<Difficulty>("medium")
   const [boardTheme, setBoardTheme] = useState<BoardTheme>("classic")
-  const [proGames, setProGames] = useState<ChessComGame[]>([])
-  const [selectedGame, setSelectedGame] = useState<ChessComGame | null>(null)
+  const [gameSourceId, setGameSourceId] = useState<GameSourceId>("chess.com")
+  const [playerQuery, setPlayerQuery] = useState(GAME_SOURCES["chess.com"].defaultPlayer)
+  const [sourcePlayer, setSourcePlayer] = useState(GAME_SOURCES["chess.com"].defaultPlayer)
+  const [periods, setPeriods] = useState<GamePeriod[]>([])
+  const [selectedPeriod, setSelectedPeriod] = useState<GamePeriod | null>(null)
+  const [proGames, setProGames] = useState<ImportedGame[]>([])
+  const [gameFilters, setGameFilters] = useState<GameFilters>(DEFAULT_FILTERS)
+  const [gamesPage, setGamesPage] = useState(0)
+  const [gameReference, setGameReference] = useState("")
+  const [referenceGames, setReferenceGames] = useState<ImportedGame[] | null>(null) // a pasted game or study
+  const [referenceError, setReferenceError] = useState<string | null>(null)
+  const [selectedGame, setSelectedGame] = useState<ImportedGame | null>(null)
+  const [selectedRecord, setSelectedRecord] = useState<PgnGame | null>(null)
+  const [pgnError, setPgnError] = useState<string | null>(null)
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [isAutoplaying, setIsAutoplaying] = useState(false)
+  const [autoplayDelay, setAutoplayDelay] = useState(1000) // milliseconds per move
   const [isLoadingGames, setIsLoadingGames] = useState(false)
-  const [lastMoveFrom, setLastMoveFrom] = useState<Position | null>(null)
-  const [lastMoveTo, setLastMoveTo] = useState<Position | null>(null)
+  const [gamesError, setGamesError] = useState<string | null>(null)
   const [evaluation, setEvaluation] = useState<number>(0) // Positive is good for black, negative for white
+  const [showBreakdown, setShowBreakdown] = useState(false)
   const [currentOpening, setCurrentOpening] = useState<string | null>(null)
-  const [moveNumber, setMoveNumber] = useState<number>(0)
+  const engine = useEngine()
+
+  // While replaying, everything on screen follows the replayed game instead of the live one
+  const isReplaying = replay !== null
+  const shownGame = useMemo(() => (replay ? replay.game.upTo(replay.ply) : game), [game, replay])
+  const position = shownGame.position
+  const board = position.board
+  const currentPlayer = position.turn
+  const moveHistory = shownGame.moves
+  const lastMoveFrom = shownGame.lastMove?.from ?? null
+  const lastMoveTo = shownGame.lastMove?.to ?? null
+  const previousPosition = shownGame.positions.length > 1 ? shownGame.positions[shownGame.positions.length - 2] : null
+  const gameSource = GAME_SOURCES[gameSourceId]
+  const listedGames = referenceGames ?? filterGames(proGames, sourcePlayer, gameFilters)
+  const gamesPageCount = Math.max(1, Math.ceil(listedGames.length / GAMES_PER_PAGE))
+  const drawClaim = game.claimableDraw()
+  const outcome = game.outcome()
+  const isGameOver = outcome !== null
 
   // Audio refs for sound effects
   const moveSound = useRef<HTMLAudioElement | null>(null)
@@ -316,6 +436,7 @@ export default function Component() {
   const checkSound = useRef<HTMLAudioElement | null>(null)
   const checkmateSound = useRef<HTMLAudioElement | null>(null)
   const gameStartSound = useRef<HTMLAudioElement | null>(null)
+  const openingBook = useRef<OpeningBook | null>(null)
 
   // Initialize audio elements
   useEffect(() => {
@@ -350,38 +471,88 @@ export default function Component() {
     gameStartSound.current = createAudioContext(600, 0.5) as any
   }, [soundEnabled])
 
-  // Fetch Magnus Carlsen's games from Chess.com API
+  // Without the book the computer simply searches from the first move
   useEffect(() => {
-    const fetchMagnusGames = async () => {
+    loadOpeningBook(OPENING_BOOK_URL)
+      .then((book) => {
+        openingBook.current = book
+      })
+      .catch((error) => console.error("Failed to load the opening book:", error))
+  }, [])
+
+  // Fetch the months the player has games in, starting on the most recent one
+  useEffect(() => {
+    let cancelled = false
+
+    const loadPeriods = async () => {
       try {
         setIsLoadingGames(true)
-        const response = await fetch("https://api.chess.com/pub/player/magnuscarlsen/games/archives")
-        const data = await response.json()
+        setGamesError(null)
+        const playerPeriods = await gameSource.fetchPeriods(sourcePlayer)
+        if (cancelled) return
+        setPeriods(playerPeriods)
+        setSelectedPeriod(playerPeriods[playerPeriods.length - 1] ?? null)
+        if (playerPeriods.length === 0) setProGames([])
+      } catch (error) {
+        console.error("Failed to fetch periods:", error)
+        if (cancelled) return
+        setGamesError(`Could not load ${sourcePlayer}'s games: ${(error as Error).message}`)
+        setPeriods([])
+        setSelectedPeriod(null)
+        setProGames([])
+      } finally {
+        if (!cancelled) setIsLoadingGames(false)
+      }
+    }
 
-        // Get the most recent archive
-        const mostRecentArchiveUrl = data.archives[data.archives.length - 1]
+    loadPeriods()
+    return () => {
+      cancelled = true
+    }
+  }, [gameSource, sourcePlayer])
 
-        // Fetch games from the most recent archive
-        const gamesResponse = await fetch(mostRecentArchiveUrl)
-        const gamesData = await gamesResponse.json()
+  // Fetch the games of the selected month; a new period is only selected once the periods of
+  // the current source and player have loaded, so those are the ones it belongs to
+  useEffect(() => {
+    if (!selectedPeriod) return
+    let cancelled = false
 
-        // Take only the first 10 games to avoid overwhelming the UI
-        setProGames(gamesData.games.slice(0, 10))
+    const loadGames = async () => {
+      try {
+        setIsLoadingGames(true)
+        setGamesError(null)
+        const games = await gameSource.fetchGames(sourcePlayer, selectedPeriod)
+        if (!cancelled) setProGames(games)
       } catch (error) {
         console.error("Failed to fetch games:", error)
+        if (!cancelled) {
+          setGamesError(`Could not load games for ${selectedPeriod.label}: ${(error as Error).message}`)
+          setProGames([])
+        }
       } finally {
-        setIsLoadingGames(false)
+        if (!cancelled) setIsLoadingGames(false)
       }
     }
 
-    fetchMagnusGames()
-  }, [])
+    setGamesPage(0)
+    loadGames()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedPeriod])
 
   // Update evaluation whenever the board changes
   useEffect(() => {
-    const newEvaluation = evaluateBoard(board)
+    const newEvaluation = evaluate(position)
     setEvaluation(newEvaluation)
-  }, [board])
+  }, [position])
+
+  // The breakdown is only worked out while its panel is open
+  const breakdown = useMemo(() => (showBreakdown ? evaluationBreakdown(position) : null), [showBreakdown, position])
+  const previousBreakdown = useMemo(
+    () => (showBreakdown && previousPosition ? evaluationBreakdown(previousPosition) : null),
+    [showBreakdown, previousPosition],
+  )
 
   // Check for openings
   useEffect(() => {
@@ -390,31 +561,11 @@ export default function Component() {
       return
     }
 
-    // Check if current sequence of moves matches any opening
-    for (const opening of OPENING_BOOK) {
-      if (moveHistory.length <= opening.moves.length) {
-        let matches = true
-        for (let i = 0; i < moveHistory.length; i++) {
-          const historyMove = moveHistory[i]
-          const bookMove = opening.moves[i]
-
-          if (
-            !bookMove ||
-            historyMove.from.row !== bookMove.from.row ||
-            historyMove.from.col !== bookMove.from.col ||
-            historyMove.to.row !== bookMove.to.row ||
-            historyMove.to.col !== bookMove.to.col
-          ) {
-            matches = false
-            break
-          }
-        }
-
-        if (matches) {
-          setCurrentOpening(opening.name)
-          return
-        }
-      }
+    // Name the opening whose line the current position is on, however it was reached
+    const opening = OPENING_POSITIONS.get(zobristKey(position.hash))
+    if (opening) {
+      setCurrentOpening(opening)
+      return
     }
 
     setCurrentOpening(null)
@@ -446,538 +597,145 @@ export default function Component() {
     }
   }
 
-  const isValidPosition = (row: number, col: number): boolean => {
-    return row >= 0 && row < 8 && col >= 0 && col < 8
-  }
-
-  const getPieceAt = (row: number, col: number): Piece | null => {
-    if (!isValidPosition(row, col)) return null
-    return board[row][col]
-  }
-
-  const isValidMove = (from: Position, to: Position, piece: Piece): boolean => {
-    if (!isValidPosition(to.row, to.col)) return false
-
-    const targetPiece = getPieceAt(to.row, to.col)
-    if (targetPiece && targetPiece.color === piece.color) return false
+  const makeMove = (from: Square, to: Square, promotion?: PieceType): boolean => {
+    const next = game.move(from, to, promotion)
+    if (!next) return false
 
-    const rowDiff = to.row - from.row
-    const colDiff = to.col - from.col
-    const absRowDiff = Math.abs(rowDiff)
-    const absColDiff = Math.abs(colDiff)
-
-    switch (piece.type) {
-      case "pawn":
-        const direction = piece.color === "white" ? -1 : 1
-        const startRow = piece.color === "white" ? 6 : 1
-
-        if (colDiff === 0) {
-          if (rowDiff === direction && !targetPiece) return true
-          if (from.row === startRow && rowDiff === 2 * direction && !targetPiece) return true
-        } else if (absColDiff === 1 && rowDiff === direction && targetPiece) {
-          return true
-        }
-        return false
-
-      case "rook":
-        if (rowDiff === 0 || colDiff === 0) {
-          return isPathClear(from, to)
-        }
-        return false
-
-      case "bishop":
-        if (absRowDiff === absColDiff) {
-          return isPathClear(from, to)
-        }
-        return false
-
-      case "queen":
-        if (rowDiff === 0 || colDiff === 0 || absRowDiff === absColDiff) {
-          return isPathClear(from, to)
-        }
-        return false
-
-      case "knight":
-        return (absRowDiff === 2 && absColDiff === 1) || (absRowDiff === 1 && absColDiff === 2)
-
-      case "king":
-        return absRowDiff <= 1 && absColDiff <= 1
-
-      default:
-        return false
-    }
-  }
-
-  const isPathClear = (from: Position, to: Position): boolean => {
-    const rowStep = to.row > from.row ? 1 : to.row < from.row ? -1 : 0
-    const colStep = to.col > from.col ? 1 : to.col < from.col ? -1 : 0
-
-    let currentRow = from.row + rowStep
-    let currentCol = from.col + colStep
-
-    while (currentRow !== to.row || currentCol !== to.col) {
-      if (getPieceAt(currentRow, currentCol)) return false
-      currentRow += rowStep
-      currentCol += colStep
-    }
-
-    return true
-  }
-
-  const findKing = (color: PieceColor): Position | null => {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = getPieceAt(row, col)
-        if (piece && piece.type === "king" && piece.color === color) {
-          return { row, col }
-        }
-      }
-    }
-    return null
-  }
-
-  const isInCheck = (color: PieceColor, boardState: (Piece | null)[][] = board): boolean => {
-    const kingPos = findKing(color)
-    if (!kingPos) return false
-
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = boardState[row][col]
-        if (piece && piece.color !== color) {
-          if (isValidMove({ row, col }, kingPos, piece)) {
-            return true
-          }
-        }
-      }
-    }
-    return false
-  }
-
-  const moveToAlgebraicNotation = (
-    move: Move,
-    boardState: (Piece | null)[][],
-    isCheck: boolean,
-    isCheckmate: boolean,
-  ): string => {
-    const { from, to, piece, capturedPiece } = move
-
-    // Handle castling
-    if (piece.type === "king" && Math.abs(to.col - from.col) === 2) {
-      return to.col > from.col ? "O-O" : "O-O-O"
-    }
-
-    let notation = ""
-
-    // Piece symbol (empty for pawn)
-    if (piece.type !== "pawn") {
-      notation += piece.type.charAt(0).toUpperCase()
-    }
-
-    // Check for disambiguation
-    if (piece.type !== "pawn") {
-      const sameTypePieces: Position[] = []
-      for (let row = 0; row < 8; row++) {
-        for (let col = 0; col < 8; col++) {
-          const p = boardState[row][col]
-          if (p && p.type === piece.type && p.color === piece.color && (row !== from.row || col !== from.col)) {
-            if (isValidMove({ row, col }, to, p)) {
-              const testBoard = boardState.map((r) => [...r])
-              testBoard[to.row][to.col] = p
-              testBoard[row][col] = null
-              if (!isInCheck(piece.color, testBoard)) {
-                sameTypePieces.push({ row, col })
-              }
-            }
-          }
-        }
-      }
-
-      if (sameTypePieces.length > 0) {
-        const sameFile = sameTypePieces.some((pos) => pos.col === from.col)
-        const sameRank = sameTypePieces.some((pos) => pos.row === from.row)
-
-        if (!sameFile) {
-          notation += String.fromCharCode(97 + from.col) // file letter
-        } else if (!sameRank) {
-          notation += (8 - from.row).toString() // rank number
-        } else {
-          notation += String.fromCharCode(97 + from.col) + (8 - from.row).toString()
-        }
-      }
-    }
-
-    // Capture notation
-    if (capturedPiece) {
-      if (piece.type === "pawn") {
-        notation += String.fromCharCode(97 + from.col) // file letter for pawn captures
-      }
-      notation += "x"
-    }
-
-    // Destination square
-    notation += String.fromCharCode(97 + to.col) + (8 - to.row).toString()
-
-    // Check and checkmate
-    if (isCheckmate) {
-      notation += "#"
-    } else if (isCheck) {
-      notation += "+"
-    }
-
-    return notation
-  }
-
-  const makeMove = (from: Position, to: Position): boolean => {
-    const piece = getPieceAt(from.row, from.col)
-    if (!piece || piece.color !== currentPlayer) return false
-
-    if (!isValidMove(from, to, piece)) return false
-
-    const newBoard = board.map((row) => [...row])
-    const capturedPiece = newBoard[to.row][to.col]
-
-    newBoard[to.row][to.col] = piece
-    newBoard[from.row][from.col] = null
-
-    // Check if this move would put own king in check
-    if (isInCheck(currentPlayer, newBoard)) return false
-
-    // Check game status after move
-    const opponent = currentPlayer === "white" ? "black" : "white"
-    const isOpponentInCheck = isInCheck(opponent, newBoard)
-    const isOpponentInCheckmate = isOpponentInCheck && isCheckmate(opponent, newBoard)
+    const move = next.lastMove!
+    const status = next.status()
 
     // Play appropriate sound
-    if (isOpponentInCheckmate) {
+    if (status === "checkmate") {
       playSound("checkmate")
-    } else if (isOpponentInCheck) {
+    } else if (status === "check") {
       playSound("check")
-    } else if (capturedPiece) {
+    } else if (move.capturedPiece) {
       playSound("capture")
     } else {
       playSound("move")
     }
 
-    // Generate algebraic notation
-    const notation = moveToAlgebraicNotation(
-      { from, to, piece, capturedPiece: capturedPiece || undefined },
-      board,
-      isOpponentInCheck,
-      isOpponentInCheckmate,
-    )
-
-    setBoard(newBoard)
-    setLastMoveFrom(from)
-    setLastMoveTo(to)
-    setMoveNumber(moveNumber + 1)
-
-    const move: Move = {
-      from,
-      to,
-      piece,
-      capturedPiece: capturedPiece || undefined,
-    }
-    setMoveHistory((prev) => [...prev, { ...move, notation }])
-
-    if (isOpponentInCheckmate) {
-      setGameStatus("checkmate")
-      setIsTimerRunning(false)
-    } else if (isOpponentInCheck) {
-      setGameStatus("check")
-    } else if (isStalemate(opponent, newBoard)) {
-      setGameStatus("stalemate")
+    setGame(next)
+    setTimer((prev) => ({ ...prev, [currentPlayer]: prev[currentPlayer] + CLOCK_INCREMENT_SECONDS }))
+    setClockHistory((prev) => [...prev, timer[currentPlayer] + CLOCK_INCREMENT_SECONDS])
+    setDrawOfferDeclined(false)
+    if (next.isOver()) {
       setIsTimerRunning(false)
-    } else {
-      setGameStatus("playing")
     }
-
-    setCurrentPlayer(opponent)
     return true
   }
 
-  const getAllValidMoves = (color: PieceColor, boardState: (Piece | null)[][]): Move[] => {
-    const moves: Move[] = []
-
-    for (let fromRow = 0; fromRow < 8; fromRow++) {
-      for (let fromCol = 0; fromCol < 8; fromCol++) {
-        const piece = boardState[fromRow][fromCol]
-        if (piece && piece.color === color) {
-          for (let toRow = 0; toRow < 8; toRow++) {
-            for (let toCol = 0; toCol < 8; toCol++) {
-              const from = { row: fromRow, col: fromCol }
-              const to = { row: toRow, col: toCol }
-
-              if (isValidMove(from, to, piece)) {
-                const testBoard = boardState.map((row) => [...row])
-                testBoard[toRow][toCol] = piece
-                testBoard[fromRow][fromCol] = null
-
-                if (!isInCheck(color, testBoard)) {
-                  moves.push({
-                    from,
-                    to,
-                    piece,
-                    capturedPiece: boardState[toRow][toCol] || undefined,
-                  })
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-
-    return moves
-  }
-
-  const isCheckmate = (color: PieceColor, boardState: (Piece | null)[][]): boolean => {
-    return isInCheck(color, boardState) && getAllValidMoves(color, boardState).length === 0
+  const claimDraw = (claim: DrawClaim) => {
+    setGame(game.end(outcomeFromClaim(claim)))
+    setIsTimerRunning(false)
   }
 
-  const isStalemate = (color: PieceColor, boardState: (Piece | null)[][]): boolean => {
-    return !isInCheck(color, boardState) && getAllValidMoves(color, boardState).length === 0
+  const resign = () => {
+    setGame(game.end(winFor("black", "resignation")))
+    setIsTimerRunning(false)
+    playSound("checkmate")
   }
 
-  const evaluateBoard = (boardState: (Piece | null)[][]): number => {
-    const pieceValues = {
-      pawn: 100,
-      knight: 320,
-      bishop: 330,
-      rook: 500,
-      queen: 900,
-      king: 20000,
-    }
-
-    // Position-based evaluation tables (simplified)
-    const pawnPositionValues = [
-      [0, 0, 0, 0, 0, 0, 0, 0],
-      [50, 50, 50, 50, 50, 50, 50, 50],
-      [10, 10, 20, 30, 30, 20, 10, 10],
-      [5, 5, 10, 25, 25, 10, 5, 5],
-      [0, 0, 0, 20, 20, 0, 0, 0],
-      [5, -5, -10, 0, 0, -10, -5, 5],
-      [5, 10, 10, -20, -20, 10, 10, 5],
-      [0, 0, 0, 0, 0, 0, 0, 0],
-    ]
-
-    const knightPositionValues = [
-      [-50, -40, -30, -30, -30, -30, -40, -50],
-      [-40, -20, 0, 0, 0, 0, -20, -40],
-      [-30, 0, 10, 15, 15, 10, 0, -30],
-      [-30, 5, 15, 20, 20, 15, 5, -30],
-      [-30, 0, 15, 20, 20, 15, 0, -30],
-      [-30, 5, 10, 15, 15, 10, 5, -30],
-      [-40, -20, 0, 5, 5, 0, -20, -40],
-      [-50, -40, -30, -30, -30, -30, -40, -50],
-    ]
-
-    let score = 0
-
-    // Material evaluation
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = boardState[row][col]
-        if (piece) {
-          let value = pieceValues[piece.type]
-
-          // Add position-based evaluation
-          if (piece.type === "pawn") {
-            value += piece.color === "white" ? pawnPositionValues[row][col] : pawnPositionValues[7 - row][col]
-          } else if (piece.type === "knight") {
-            value += piece.color === "white" ? knightPositionValues[row][col] : knightPositionValues[7 - row][col]
-          }
-
-          score += piece.color === "black" ? value : -value
-        }
-      }
-    }
-
-    // Check for checkmate
-    if (isCheckmate("white", boardState)) {
-      return 10000 // Black wins
-    } else if (isCheckmate("black", boardState)) {
-      return -10000 // White wins
-    }
-
-    // Check for check
-    if (isInCheck("white", boardState)) {
-      score += 50 // Bonus for putting white in check
-    } else if (isInCheck("black", boardState)) {
-      score -= 50 // Bonus for putting black in check
-    }
-
-    return score
-  }
-
-  const minimax = (
-    boardState: (Piece | null)[][],
-    depth: number,
-    isMaximizing: boolean,
-    alpha: number,
-    beta: number,
-  ): number => {
-    if (depth === 0) {
-      return evaluateBoard(boardState)
-    }
-
-    const color = isMaximizing ? "black" : "white"
-    const moves = getAllValidMoves(color, boardState)
-
-    if (moves.length === 0) {
-      if (isInCheck(color, boardState)) {
-        return isMaximizing ? -10000 : 10000
-      }
-      return 0 // Stalemate
-    }
-
-    if (isMaximizing) {
-      let maxEval = Number.NEGATIVE_INFINITY
-      for (const move of moves) {
-        const newBoard = boardState.map((row) => [...row])
-        newBoard[move.to.row][move.to.col] = move.piece
-        newBoard[move.from.row][move.from.col] = null
-
-        const eval_ = minimax(newBoard, depth - 1, false, alpha, beta)
-        maxEval = Math.max(maxEval, eval_)
-        alpha = Math.max(alpha, eval_)
-        if (beta <= alpha) break
-      }
-      return maxEval
+  // The computer takes a draw whenever it does not think it is better
+  const offerDraw = () => {
+    if (evaluate(position) <= 0) {
+      setGame(game.end(drawBy("agreement")))
+      setIsTimerRunning(false)
     } else {
-      let minEval = Number.POSITIVE_INFINITY
-      for (const move of moves) {
-        const newBoard = boardState.map((row) => [...row])
-        newBoard[move.to.row][move.to.col] = move.piece
-        newBoard[move.from.row][move.from.col] = null
-
-        const eval_ = minimax(newBoard, depth - 1, true, alpha, beta)
-        minEval = Math.min(minEval, eval_)
-        beta = Math.min(beta, eval_)
-        if (beta <= alpha) break
-      }
-      return minEval
+      setDrawOfferDeclined(true)
     }
   }
 
-  const getComputerMove = (): Move | null => {
-    // Check if we can use an opening book move
-    if (moveNumber < 10) {
-      // Only use opening book for first 10 moves
-      for (const opening of OPENING_BOOK) {
-        if (moveHistory.length < opening.moves.length) {
-          let matches = true
-          for (let i = 0; i < moveHistory.length; i++) {
-            const historyMove = moveHistory[i]
-            const bookMove = opening.moves[i]
-
-            if (
-              historyMove.from.row !== bookMove.from.row ||
-              historyMove.from.col !== bookMove.from.col ||
-              historyMove.to.row !== bookMove.to.row ||
-              historyMove.to.col !== bookMove.to.col
-            ) {
-              matches = false
-              break
-            }
-          }
-
-          if (matches && moveHistory.length % 2 === 1) {
-            // Black's turn
-            const nextBookMove = opening.moves[moveHistory.length]
-            if (nextBookMove) {
-              const piece = getPieceAt(nextBookMove.from.row, nextBookMove.from.col)
-              if (piece && piece.color === "black") {
-                return {
-                  from: nextBookMove.from,
-                  to: nextBookMove.to,
-                  piece: piece,
-                }
-              }
-            }
-          }
-        }
-      }
+  // A move the computer plays without searching: from the opening book, or at random on lower difficulties
+  const getInstantMove = (): Move | null => {
+    // Out of book, or past the difficulty's book depth, the computer searches
+    if (openingBook.current && moveHistory.length < DIFFICULTY_SETTINGS[difficulty].bookDepth) {
+      const bookMove = openingBook.current.pickMove(position)
+      if (bookMove) return bookMove
     }
 
-    // If no opening book move, use minimax
-    const moves = getAllValidMoves("black", board)
-    if (moves.length === 0) return null
-
-    const settings = DIFFICULTY_SETTINGS[difficulty]
-
     // For easy and medium difficulties, occasionally make a suboptimal move
-    if (Math.random() < settings.randomFactor) {
-      // Choose a random move from the available moves
+    const moves = position.legalMoves()
+    if (moves.length > 0 && Math.random() < DIFFICULTY_SETTINGS[difficulty].randomFactor) {
       return moves[Math.floor(Math.random() * moves.length)]
     }
 
-    // Otherwise, use minimax to find the best move
-    let bestMove = moves[0]
-    let bestValue = Number.NEGATIVE_INFINITY
+    return null
+  }
 
-    for (const move of moves) {
-      const newBoard = board.map((row) => [...row])
-      newBoard[move.to.row][move.to.col] = move.piece
-      newBoard[move.from.row][move.from.col] = null
+  // On the computer's turn, search in the engine worker unless a move can be played straight away.
+  // A new position (such as a new game) or difficulty cancels the search in progress.
+  useEffect(() => {
+    if (currentPlayer !== "black" || isGameOver || isReplaying) return
+
+    const delay = setTimeout(() => {
+      // Take a claimable draw unless the computer thinks it is better
+      const claim = game.claimableDraw()
+      if (claim && evaluate(position) <= 0) {
+        claimDraw(claim)
+        return
+      }
 
-      const value = minimax(newBoard, settings.depth, false, Number.NEGATIVE_INFINITY, Number.POSITIVE_INFINITY)
-      if (value > bestValue) {
-        bestValue = value
-        bestMove = move
+      const instantMove = getInstantMove()
+      if (instantMove) {
+        makeMove(instantMove.from, instantMove.to, instantMove.promotion)
+      } else {
+        const { depth, nodes } = DIFFICULTY_SETTINGS[difficulty]
+        const limits = {
+          depth,
+          nodes,
+          time: allotTime({ remaining: timer.black * 1000, increment: CLOCK_INCREMENT_SECONDS * 1000 }),
+        }
+        engine.search(
+          position,
+          limits,
+          game.positions.slice(0, -1).map((earlier) => earlier.hash),
+        )
       }
+    }, 500)
+    return () => {
+      clearTimeout(delay)
+      engine.cancel()
     }
+  }, [position, isGameOver, isReplaying, difficulty])
 
-    return bestMove
-  }
-
+  // Play the engine's move once its search finishes
   useEffect(() => {
-    if (currentPlayer === "black" && gameStatus === "playing") {
-      const timer = setTimeout(() => {
-        const computerMove = getComputerMove()
-        if (computerMove) {
-          makeMove(computerMove.from, computerMove.to)
-        }
-      }, 500)
-      return () => clearTimeout(timer)
-    }
-  }, [currentPlayer, gameStatus, difficulty])
+    const move = engine.result?.move
+    if (move) makeMove(move.from, move.to, move.promotion)
+  }, [engine.result])
 
   useEffect(() => {
-    if (!isTimerRunning || gameStatus !== "playing") return
+    if (!isTimerRunning || isGameOver) return
 
     const interval = setInterval(() => {
-      setTimer((prev) => {
-        const newTimer = { ...prev }
-        if (currentPlayer === "white") {
-          newTimer.white = Math.max(0, newTimer.white - 1)
-          if (newTimer.white === 0) {
-            setGameStatus("checkmate")
-            setIsTimerRunning(false)
-            playSound("checkmate")
-          }
-        } else {
-          newTimer.black = Math.max(0, newTimer.black - 1)
-          if (newTimer.black === 0) {
-            setGameStatus("checkmate")
-            setIsTimerRunning(false)
-            playSound("checkmate")
-          }
-        }
-        return newTimer
-      })
+      setTimer((prev) => ({ ...prev, [currentPlayer]: Math.max(0, prev[currentPlayer] - 1) }))
     }, 1000)
 
     return () => clearInterval(interval)
-  }, [isTimerRunning, currentPlayer, gameStatus])
+  }, [isTimerRunning, currentPlayer, isGameOver])
+
+  // End the game when a flag falls
+  useEffect(() => {
+    if (isGameOver || timer[currentPlayer] > 0) return
+
+    setGame(game.end(timeoutOutcome(board, currentPlayer)))
+    setIsTimerRunning(false)
+    playSound("checkmate")
+  }, [timer])
 
   const handleSquareClick = (row: number, col: number) => {
-    if (currentPlayer !== "white" || gameStatus !== "playing") return
+    if (currentPlayer !== "white" || isGameOver || isReplaying) return
 
-    const clickedPiece = getPieceAt(row, col)
+    const clickedPiece = position.pieceAt({ row, col })
 
     if (selectedSquare) {
       if (selectedSquare.row === row && selectedSquare.col === col) {
         setSelectedSquare(null)
+      } else if (!autoQueen && position.isPromotion(selectedSquare, { row, col })) {
+        // Hold the move until the player picks a piece
+        setPendingPromotion({ from: selectedSquare, to: { row, col } })
+        setSelectedSquare(null)
       } else {
         const success = makeMove(selectedSquare, { row, col })
         setSelectedSquare(null)
@@ -987,21 +745,140 @@ export default function Component() {
     }
   }
 
-  const resetGame = () => {
-    setBoard(INITIAL_BOARD)
+  // Clears everything about the previous game without starting the new one's clock
+  const clearGame = (newGame: Game) => {
+    setGame(newGame)
+    setReplay(null)
+    setIsAutoplaying(false)
     setSelectedSquare(null)
-    setCurrentPlayer("white")
-    setGameStatus("playing")
-    setMoveHistory([])
-    setTimer({ white: 180, black: 180 })
-    setIsTimerRunning(true)
-    setLastMoveFrom(null)
-    setLastMoveTo(null)
-    setMoveNumber(0)
+    setPendingPromotion(null)
+    setDrawOfferDeclined(false)
+    setTimer({ white: INITIAL_CLOCK_SECONDS, black: INITIAL_CLOCK_SECONDS })
+    setClockHistory([])
+    setGameStartedAt(new Date())
+    setIsTimerRunning(false)
     setCurrentOpening(null)
+  }
+
+  const startGame = (newGame: Game) => {
+    clearGame(newGame)
+    setIsTimerRunning(true)
     playSound("gameStart")
   }
 
+  const resetGame = () => startGame(Game.fromPosition())
+
+  const changeGameSource = (id: GameSourceId) => {
+    setGameSourceId(id)
+    setPlayerQuery(GAME_SOURCES[id].defaultPlayer)
+    setSourcePlayer(GAME_SOURCES[id].defaultPlayer)
+    setGameReference("")
+    setReferenceGames(null)
+    setReferenceError(null)
+  }
+
+  const searchPlayer = (event: FormEvent) => {
+    event.preventDefault()
+    const username = playerQuery.trim()
+    if (!username) return
+    setSourcePlayer(username)
+    setReferenceGames(null)
+    setGamesPage(0)
+  }
+
+  // List the games behind a pasted link or ID in place of the player's games
+  const importReference = async (event: FormEvent) => {
+    event.preventDefault()
+    const reference = gameReference.trim()
+    if (!reference || !gameSource.fetchReference) return
+
+    try {
+      setIsLoadingGames(true)
+      setReferenceError(null)
+      const games = await gameSource.fetchReference(reference)
+      if (!games) {
+        setReferenceError(`Not a ${gameSource.name} game or study link`)
+        return
+      }
+      setReferenceGames(games)
+      setGamesPage(0)
+    } catch (error) {
+      console.error("Failed to import games:", error)
+      setReferenceError(`Could not import ${reference}: ${(error as Error).message}`)
+    } finally {
+      setIsLoadingGames(false)
+    }
+  }
+
+  const updateGameFilters = (changes: Partial<GameFilters>) => {
+    setGameFilters((prev) => ({ ...prev, ...changes }))
+    setGamesPage(0)
+  }
+
+  const submitTypedMove = (event: FormEvent) => {
+    event.preventDefault()
+    if (currentPlayer !== "white" || isGameOver || isReplaying) return
+
+    try {
+      const move = parseSan(position, moveInput)
+      makeMove(move.from, move.to, move.promotion)
+      setMoveInput("")
+      setMoveInputError(null)
+    } catch (error) {
+      setMoveInputError(error instanceof SanError ? error.message : "Could not play that move")
+    }
+  }
+
+  const loadFen = () => {
+    try {
+      startGame(Game.fromPosition(parseFen(fenInput)))
+      setFenError(null)
+      setIsFenDialogOpen(false)
+    } catch (error) {
+      setFenError(error instanceof FenError ? error.message : "Could not read that FEN")
+    }
+  }
+
+  const buildPgn = (): string => {
+    return writePgn(game, {
+      tags: {
+        Event: "Casual game",
+        Site: "2D Chess",
+        Date: formatPgnDate(gameStartedAt),
+        Round: "-",
+        White: "Player",
+        Black: `Computer (${DIFFICULTY_SETTINGS[difficulty].name})`,
+        TimeControl: CLOCK_INCREMENT_SECONDS
+          ? `${INITIAL_CLOCK_SECONDS}+${CLOCK_INCREMENT_SECONDS}`
+          : String(INITIAL_CLOCK_SECONDS),
+        ...(currentOpening ? { Opening: currentOpening } : {}),
+      },
+      clocks: clockHistory,
+    })
+  }
+
+  const copyPgn = () => {
+    navigator.clipboard?.writeText(buildPgn()).catch((error) => {
+      console.error("Failed to copy PGN:", error)
+    })
+  }
+
+  const downloadPgn = () => {
+    const url = URL.createObjectURL(new Blob([buildPgn()], { type: "application/x-chess-pgn" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `chess-${formatPgnDate(gameStartedAt).replace(/\./g, "-")}.pgn`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Copies the position after `ply` half-moves, or the current position
+  const copyFen = (ply: number = moveHistory.length) => {
+    navigator.clipboard?.writeText(toFen(shownGame.positions[ply])).catch((error) => {
+      console.error("Failed to copy FEN:", error)
+    })
+  }
+
   const getSquareColor = (row: number, col: number): string => {
     const isLight = (row + col) % 2 === 0
     const isSelected = selectedSquare && selectedSquare.row === row && selectedSquare.col === col
@@ -1016,52 +893,92 @@ export default function Component() {
   }
 
   const getStatusMessage = (): string => {
-    switch (gameStatus) {
-      case "check":
-        return `${currentPlayer === "white" ? "White" : "Black"} is in check!`
+    if (replay) {
+      const players = `${replay.record.tags.White ?? "White"} vs ${replay.record.tags.Black ?? "Black"}`
+      return `Replaying ${players}: move ${replay.ply} of ${replay.game.moves.length}`
+    }
+
+    if (!outcome) {
+      if (position.isCheck()) return `${currentPlayer === "white" ? "White" : "Black"} is in check!`
+      if (drawOfferDeclined) return "The computer declines your draw offer. Your turn"
+      return `${currentPlayer === "white" ? "Your" : "Computer's"} turn`
+    }
+
+    const winner = outcome.winner === "white" ? "White" : "Black"
+    switch (outcome.termination) {
       case "checkmate":
-        if (timer.white === 0) return "Time's up! Black wins!"
-        if (timer.black === 0) return "Time's up! White wins!"
-        return `Checkmate! ${currentPlayer === "white" ? "Black" : "White"} wins!`
+        return `Checkmate! ${winner} wins!`
+      case "timeout":
+        return `Time's up! ${winner} wins!`
+      case "timeoutVsInsufficientMaterial":
+        return "Time's up, but the opponent cannot checkmate. The game is a draw."
+      case "resignation":
+        return `${outcome.winner === "white" ? "Black" : "White"} resigns. ${winner} wins!`
+      case "agreement":
+        return "Draw agreed."
       case "stalemate":
         return "Stalemate! The game is a draw."
-      default:
-        return `${currentPlayer === "white" ? "Your" : "Computer's"} turn`
+      case "threefoldRepetition":
+        return "Draw by threefold repetition."
+      case "fivefoldRepetition":
+        return "Draw by fivefold repetition."
+      case "fiftyMove":
+        return "Draw by the fifty-move rule."
+      case "seventyFiveMove":
+        return "Draw by the seventy-five-move rule."
+      case "insufficientMaterial":
+        return "Draw! Neither side has enough material to checkmate."
     }
   }
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
+    const secs = Math.floor(seconds % 60)
     return `${mins}:${secs.toString().padStart(2, "0")}`
   }
 
-  // Parse PGN to extract moves
-  const parsePgn = (pgn: string): string[] => {
-    const moves: string[] = []
-    // Remove comments and variations
-    const cleanPgn = pgn.replace(/\{[^}]*\}/g, "").replace(/$$[^)]*$$/g, "")
-
-    // Extract moves
-    const moveRegex = /\d+\.\s+(\S+)(?:\s+(\S+))?/g
-    let match
+  // Load a professional game and step through it from the first move
+  const loadProGame = (game: ImportedGame) => {
+    clearGame(Game.fromPosition())
+    setSelectedGame(game)
+    setIsAutoplaying(false)
 
-    while ((match = moveRegex.exec(cleanPgn)) !== null) {
-      if (match[1]) moves.push(match[1])
-      if (match[2]) moves.push(match[2])
+    try {
+      const record = parsePgn(game.pgn)[0] ?? null
+      setSelectedRecord(record)
+      setReplay(record ? { record, game: pgnToGame(record), ply: 0 } : null)
+      setPgnError(null)
+    } catch (error) {
+      setSelectedRecord(null)
+      setReplay(null)
+      setPgnError(error instanceof PgnError ? error.message : "Could not read this game's PGN")
     }
+  }
 
-    return moves
+  const goToPly = (ply: number) => {
+    setReplay((prev) => prev && { ...prev, ply: Math.max(0, Math.min(ply, prev.game.moves.length)) })
   }
 
-  // Load a professional game
-  const loadProGame = (game: ChessComGame) => {
-    resetGame()
-    setSelectedGame(game)
+  // Step the replay forward while autoplay is on, stopping at the last move
+  useEffect(() => {
+    if (!isAutoplaying || !replay) return
+    if (replay.ply >= replay.game.moves.length) {
+      setIsAutoplaying(false)
+      return
+    }
+
+    const timeout = setTimeout(() => goToPly(replay.ply + 1), autoplayDelay)
+    return () => clearTimeout(timeout)
+  }, [isAutoplaying, replay, autoplayDelay])
 
-    // We could implement a PGN parser to actually load the game moves,
-    // but for simplicity we'll just show the game information
-    // A full implementation would parse the PGN and set up the board accordingly
+  // Clock reading for `color` from the last %clk comment before the shown ply,
+  // falling back to the time of the first period of the game's time control
+  const getReplayClock = (replay: Replay, color: PieceColor): number => {
+    for (let ply = replay.ply - 1; ply >= 0; ply--) {
+      const clock = replay.record.moves[ply].clock
+      if (replay.game.positions[ply].turn === color && clock !== undefined) return clock
+    }
+    return parseTimeControl(replay.record.tags.TimeControl ?? "")?.[0].seconds ?? 0
   }
 
   // Format evaluation for display
@@ -1098,17 +1015,38 @@ export default function Component() {
           <CardHeader className="text-center pb-4">
             <CardTitle className="text-2xl sm:text-3xl font-bold text-white drop-shadow-lg">2D Chess</CardTitle>
             <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-              <p className="text-lg font-medium text-white/90 drop-shadow">{getStatusMessage()}</p>
+              <div>
+                <p className="text-lg font-medium text-white/90 drop-shadow">{getStatusMessage()}</p>
+                {engine.thinking && (
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm text-white/70 animate-pulse" title={describeStats(engine.progress)}>
+                      Thinking…
+                      {engine.progress &&
+                        ` depth ${engine.progress.depth}, ${engine.progress.nodes.toLocaleString()} nodes`}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={engine.moveNow}
+                      className="h-7 glassmorphism border-white/30 text-white hover:bg-white/20"
+                    >
+                      Move now
+                    </Button>
+                  </div>
+                )}
+                {engine.error && <p className="text-sm text-red-300">The computer could not move: {engine.error}</p>}
+              </div>
               <div className="flex flex-wrap items-center gap-3">
                 <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
                   <SelectTrigger className="w-[180px] bg-white/10 text-white border-white/20">
                     <SelectValue placeholder="Select difficulty" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="easy">Newbie</SelectItem>
-                    <SelectItem value="medium">Intermediate</SelectItem>
-                    <SelectItem value="hard">Expert</SelectItem>
-                    <SelectItem value="grandmaster">Grandmaster</SelectItem>
+                    {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {DIFFICULTY_SETTINGS[level].name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
 
@@ -1127,18 +1065,54 @@ export default function Component() {
                   </SelectContent>
                 </Select>
 
+                <Dialog
+                  open={isFenDialogOpen}
+                  onOpenChange={(open) => {
+                    setIsFenDialogOpen(open)
+                    setFenError(null)
+                  }}
+                >
+                  <DialogTrigger asChild>
+                    <Button variant="outline" className="glassmorphism border-white/30 text-white hover:bg-white/20">
+                      <FileInput className="w-4 h-4 mr-2" />
+                      Load FEN
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="glassmorphism-dark border-white/10 text-white">
+                    <DialogHeader>
+                      <DialogTitle>Load Position</DialogTitle>
+                      <DialogDescription className="text-white/70">
+                        Paste a FEN string to start a new game from that position.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <Textarea
+                      value={fenInput}
+                      onChange={(event) => setFenInput(event.target.value)}
+                      placeholder={INITIAL_FEN}
+                      className="bg-black/20 border-white/20 text-white font-mono text-sm"
+                    />
+                    {fenError && <p className="text-sm text-red-300">{fenError}</p>}
+                    <Button
+                      onClick={loadFen}
+                      className="bg-blue-600/80 hover:bg-blue-700/80 text-white border-0 backdrop-blur-sm"
+                    >
+                      Load
+                    </Button>
+                  </DialogContent>
+                </Dialog>
+
                 <Dialog>
                   <DialogTrigger asChild>
                     <Button variant="outline" className="glassmorphism border-white/30 text-white hover:bg-white/20">
                       <BookOpen className="w-4 h-4 mr-2" />
-                      Magnus' Game
+                      Online Games
                     </Button>
                   </DialogTrigger>
                   <DialogContent className="glassmorphism-dark border-white/10 text-white">
                     <DialogHeader>
-                      <DialogTitle>Magnus Carlsen's Games</DialogTitle>
+                      <DialogTitle>{referenceGames ? "Imported Games" : `${sourcePlayer}'s Games`}</DialogTitle>
                       <DialogDescription className="text-white/70">
-                        Game History fetched from Chess.com, Browse the Moves!
+                        Game History fetched from {gameSource.name}, Browse the Moves!
                       </DialogDescription>
                     </DialogHeader>
 
@@ -1149,40 +1123,219 @@ export default function Component() {
                       </TabsList>
 
                       <TabsContent value="games">
+                        <form onSubmit={searchPlayer} className="flex gap-2 mb-2">
+                          <Select
+                            value={gameSourceId}
+                            onValueChange={(value) => changeGameSource(value as GameSourceId)}
+                          >
+                            <SelectTrigger className="w-36 bg-white/10 text-white border-white/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(GAME_SOURCES).map((source) => (
+                                <SelectItem key={source.id} value={source.id}>
+                                  {source.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={playerQuery}
+                            onChange={(event) => setPlayerQuery(event.target.value)}
+                            placeholder={`${gameSource.name} username`}
+                            className="bg-white/10 text-white border-white/20 placeholder:text-white/50"
+                          />
+                          <Button
+                            type="submit"
+                            variant="outline"
+                            className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                          >
+                            Search
+                          </Button>
+                        </form>
+
+                        {gameSource.fetchReference && (
+                          <form onSubmit={importReference} className="flex gap-2 mb-2">
+                            <Input
+                              value={gameReference}
+                              onChange={(event) => setGameReference(event.target.value)}
+                              placeholder={`${gameSource.name} game or study link`}
+                              className="bg-white/10 text-white border-white/20 placeholder:text-white/50"
+                            />
+                            <Button
+                              type="submit"
+                              variant="outline"
+                              className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                            >
+                              Import
+                            </Button>
+                          </form>
+                        )}
+                        {referenceError && <p className="text-sm text-red-300 mb-2">{referenceError}</p>}
+
+                        {referenceGames ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setReferenceGames(null)}
+                            className="glassmorphism border-white/30 text-white hover:bg-white/20 mb-2"
+                          >
+                            Back to {sourcePlayer}'s games
+                          </Button>
+                        ) : (
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-2">
+                            <Select
+                              value={selectedPeriod?.id ?? ""}
+                              onValueChange={(value) =>
+                                setSelectedPeriod(periods.find((period) => period.id === value) ?? null)
+                              }
+                            >
+                              <SelectTrigger className="bg-white/10 text-white border-white/20">
+                                <SelectValue placeholder="Month" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {[...periods].reverse().map((period) => (
+                                  <SelectItem key={period.id} value={period.id}>
+                                    {period.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={gameFilters.timeClass}
+                              onValueChange={(value) =>
+                                updateGameFilters({ timeClass: value as GameFilters["timeClass"] })
+                              }
+                            >
+                              <SelectTrigger className="bg-white/10 text-white border-white/20">
+                                <SelectValue placeholder="Time class" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">All time classes</SelectItem>
+                                <SelectItem value="bullet">Bullet</SelectItem>
+                                <SelectItem value="blitz">Blitz</SelectItem>
+                                <SelectItem value="rapid">Rapid</SelectItem>
+                                <SelectItem value="classical">Classical</SelectItem>
+                                <SelectItem value="daily">Daily</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={gameFilters.color}
+                              onValueChange={(value) => updateGameFilters({ color: value as GameFilters["color"] })}
+                            >
+                              <SelectTrigger className="bg-white/10 text-white border-white/20">
+                                <SelectValue placeholder="Color" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">Either color</SelectItem>
+                                <SelectItem value="white">As white</SelectItem>
+                                <SelectItem value="black">As black</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={gameFilters.result}
+                              onValueChange={(value) => updateGameFilters({ result: value as GameFilters["result"] })}
+                            >
+                              <SelectTrigger className="bg-white/10 text-white border-white/20">
+                                <SelectValue placeholder="Result" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">Any result</SelectItem>
+                                <SelectItem value="win">Wins</SelectItem>
+                                <SelectItem value="loss">Losses</SelectItem>
+                                <SelectItem value="draw">Draws</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={gameFilters.rated}
+                              onValueChange={(value) => updateGameFilters({ rated: value as GameFilters["rated"] })}
+                            >
+                              <SelectTrigger className="bg-white/10 text-white border-white/20">
+                                <SelectValue placeholder="Rated" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">Rated and casual</SelectItem>
+                                <SelectItem value="rated">Rated only</SelectItem>
+                                <SelectItem value="casual">Casual only</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+
                         <ScrollArea className="h-[300px]">
                           {isLoadingGames ? (
                             <div className="flex items-center justify-center h-full">
                               <p>Loading Games...</p>
                             </div>
-                          ) : proGames.length > 0 ? (
+                          ) : listedGames.length > 0 ? (
                             <div className="space-y-2 p-2">
-                              {proGames.map((game, index) => (
-                                <div
-                                  key={index}
-                                  className="p-3 rounded-md bg-white/5 hover:bg-white/10 cursor-pointer transition-colors"
-                                  onClick={() => loadProGame(game)}
-                                >
-                                  <div className="flex justify-between items-center">
-                                    <span className="font-medium">
-                                      {game.white.username} vs {game.black.username}
-                                    </span>
-                                    <span className="text-sm text-white/60">
-                                      {new Date(game.end_time * 1000).toLocaleDateString()}
-                                    </span>
-                                  </div>
-                                  <div className="flex justify-between text-sm mt-1">
-                                    <span>White: {game.white.result}</span>
-                                    <span>Black: {game.black.result}</span>
+                              {listedGames
+                                .slice(gamesPage * GAMES_PER_PAGE, (gamesPage + 1) * GAMES_PER_PAGE)
+                                .map((game, index) => (
+                                  <div
+                                    key={`${game.source}-${game.id}-${index}`}
+                                    className="p-3 rounded-md bg-white/5 hover:bg-white/10 cursor-pointer transition-colors"
+                                    onClick={() => loadProGame(game)}
+                                  >
+                                    <div className="flex justify-between items-center">
+                                      <span className="font-medium">
+                                        {game.title ?? `${game.white.username} vs ${game.black.username}`}
+                                      </span>
+                                      <span className="text-sm text-white/60">
+                                        {game.endTime && new Date(game.endTime).toLocaleDateString()}
+                                      </span>
+                                    </div>
+                                    <div className="flex justify-between text-sm mt-1">
+                                      <span>White: {formatPlayer(game.white)}</span>
+                                      <span>Black: {formatPlayer(game.black)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-xs mt-1 text-white/60">
+                                      <span className="capitalize">
+                                        {formatResult(game.result)} · {game.timeClass ?? "untimed"} ·{" "}
+                                        {game.rated ? "Rated" : "Casual"}
+                                      </span>
+                                      {game.accuracies && (
+                                        <span>
+                                          Accuracy {game.accuracies.white.toFixed(1)} /{" "}
+                                          {game.accuracies.black.toFixed(1)}
+                                        </span>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
-                              ))}
+                                ))}
                             </div>
                           ) : (
                             <div className="flex items-center justify-center h-full">
-                              <p>No Games Available</p>
+                              <p className={gamesError ? "text-red-300 text-center" : ""}>
+                                {gamesError ?? "No Games Available"}
+                              </p>
                             </div>
                           )}
                         </ScrollArea>
+
+                        <div className="flex items-center justify-between mt-2 text-sm">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={gamesPage === 0}
+                            onClick={() => setGamesPage(gamesPage - 1)}
+                            className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                          >
+                            Previous
+                          </Button>
+                          <span className="text-white/70">
+                            Page {gamesPage + 1} of {gamesPageCount}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={gamesPage + 1 >= gamesPageCount}
+                            onClick={() => setGamesPage(gamesPage + 1)}
+                            className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                          >
+                            Next
+                          </Button>
+                        </div>
                       </TabsContent>
 
                       {selectedGame && (
@@ -1190,29 +1343,53 @@ export default function Component() {
                           <div className="p-4">
                             <h3 className="text-lg font-medium mb-2">Game Details</h3>
                             <p className="mb-1">
-                              <strong>White:</strong> {selectedGame.white.username} ({selectedGame.white.rating})
+                              <strong>White:</strong> {formatPlayer(selectedGame.white)}
                             </p>
                             <p className="mb-1">
-                              <strong>Black:</strong> {selectedGame.black.username} ({selectedGame.black.rating})
+                              <strong>Black:</strong> {formatPlayer(selectedGame.black)}
                             </p>
                             <p className="mb-1">
-                              <strong>Result:</strong> {selectedGame.white.result} - {selectedGame.black.result}
+                              <strong>Result:</strong> {formatResult(selectedGame.result)}
                             </p>
                             <p className="mb-1">
-                              <strong>Time Control:</strong> {selectedGame.time_control}
+                              <strong>Time Control:</strong> {selectedGame.timeControl}
                             </p>
+                            {selectedGame.opening && (
+                              <p className="mb-1">
+                                <strong>Opening:</strong> {selectedGame.opening}
+                              </p>
+                            )}
+                            {selectedGame.endTime && (
+                              <p className="mb-1">
+                                <strong>Date:</strong> {new Date(selectedGame.endTime).toLocaleDateString()}
+                              </p>
+                            )}
                             <p className="mb-3">
-                              <strong>Date:</strong> {new Date(selectedGame.end_time * 1000).toLocaleDateString()}
+                              <a href={selectedGame.url} target="_blank" rel="noreferrer" className="underline">
+                                View on {GAME_SOURCES[selectedGame.source].name}
+                              </a>
                             </p>
 
                             <h4 className="font-medium mb-2">Moves</h4>
                             <div className="bg-black/20 p-3 rounded-md max-h-[150px] overflow-y-auto">
-                              {parsePgn(selectedGame.pgn).map((move, i) => (
-                                <span key={i} className="mr-2">
-                                  {i % 2 === 0 && <span className="text-white/60">{Math.floor(i / 2) + 1}. </span>}
-                                  {move}
-                                </span>
-                              ))}
+                              {pgnError && <p className="text-sm text-red-300">{pgnError}</p>}
+                              {selectedRecord?.moves.map((node, i) => {
+                                const ply = i + (selectedRecord.startPosition.turn === "black" ? 1 : 0)
+                                return (
+                                  <span
+                                    key={i}
+                                    className={`mr-2 cursor-pointer hover:underline ${replay?.ply === i + 1 ? "text-blue-300" : ""}`}
+                                    onClick={() => goToPly(i + 1)}
+                                  >
+                                    {ply % 2 === 0 && (
+                                      <span className="text-white/60">
+                                        {selectedRecord.startPosition.fullmoveNumber + Math.floor(ply / 2)}.{" "}
+                                      </span>
+                                    )}
+                                    {node.san}
+                                  </span>
+                                )
+                              })}
                             </div>
                           </div>
                         </TabsContent>
@@ -1238,7 +1415,9 @@ export default function Component() {
                 >
                   <Clock className="w-5 h-5 text-white" />
                   <span className="font-mono text-lg text-white font-semibold">
-                    Computer: {formatTime(timer.black)}
+                    {replay
+                      ? `${selectedGame?.black.username ?? "Black"}: ${formatTime(getReplayClock(replay, "black"))}`
+                      : `Computer: ${formatTime(timer.black)}`}
                   </span>
                 </div>
               </CardContent>
@@ -1256,15 +1435,18 @@ export default function Component() {
                   ) : (
                     <div className="space-y-1">
                       {moveHistory.map((move, index) => {
-                        const moveNumber = Math.floor(index / 2) + 1
-                        const isWhiteMove = index % 2 === 0
+                        const moveNumber = shownGame.positions[index].fullmoveNumber
+                        const isWhiteMove = shownGame.positions[index].turn === "white"
 
                         return (
                           <div key={index} className="flex text-sm">
                             {isWhiteMove && <span className="w-8 text-white/70 font-medium">{moveNumber}.</span>}
-                            <span className={`flex-1 ${isWhiteMove ? "text-blue-300" : "text-white/90"}`}>
-                              {(move as any).notation ||
-                                `${String.fromCharCode(97 + move.from.col)}${8 - move.from.row}-${String.fromCharCode(97 + move.to.col)}${8 - move.to.row}`}
+                            <span
+                              className={`flex-1 cursor-pointer hover:underline ${isWhiteMove ? "text-blue-300" : "text-white/90"}`}
+                              title="Copy FEN after this move"
+                              onClick={() => copyFen(index + 1)}
+                            >
+                              {move.notation || `${squareName(move.from)}-${squareName(move.to)}`}
                             </span>
                           </div>
                         )
@@ -1295,24 +1477,83 @@ export default function Component() {
           {/* Center - Chess Board and Evaluation */}
           <div className="flex flex-col items-center gap-4">
             {/* Evaluation Bar */}
-            <div className="w-full flex items-center gap-2">
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <div className="h-6 w-full bg-gray-800/50 rounded-md overflow-hidden flex flex-col">
-                      <div
-                        className="bg-gradient-to-r from-blue-500 to-blue-400 h-full transition-all duration-300"
-                        style={{ width: `${100 - getEvaluationPercentage()}%` }}
-                      />
-                    </div>
-                  </TooltipTrigger>
-                  <TooltipContent side="top">
-                    <p>Evaluation: {formatEvaluation(evaluation)}</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-              <span className="text-white font-mono text-sm">{formatEvaluation(evaluation)}</span>
-            </div>
+            <Collapsible open={showBreakdown} onOpenChange={setShowBreakdown} className="w-full">
+              <div className="w-full flex items-center gap-2">
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className="h-6 w-full bg-gray-800/50 rounded-md overflow-hidden flex flex-col">
+                        <div
+                          className="bg-gradient-to-r from-blue-500 to-blue-400 h-full transition-all duration-300"
+                          style={{ width: `${100 - getEvaluationPercentage()}%` }}
+                        />
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="top">
+                      <p>Evaluation: {formatEvaluation(evaluation)}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <span className="text-white font-mono text-sm">{formatEvaluation(evaluation)}</span>
+                <CollapsibleTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Evaluation breakdown"
+                    className="h-6 px-1 text-white/70 hover:bg-white/20 hover:text-white"
+                  >
+                    <ChevronDown className={`w-4 h-4 transition-transform ${showBreakdown ? "rotate-180" : ""}`} />
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent>
+                {breakdown && (
+                  <div className="mt-2 bg-black/20 border border-white/10 rounded-lg p-3 text-sm text-white">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-white/60 text-xs">
+                          <th className="text-left font-medium">Term</th>
+                          <th className="text-right font-medium">White</th>
+                          <th className="text-right font-medium">Black</th>
+                          <th className="text-right font-medium">Net</th>
+                          <th className="text-right font-medium">Last move</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {EVALUATION_TERMS.map((term) => (
+                          <tr key={term}>
+                            <td className="font-sans">{EVALUATION_TERM_LABELS[term]}</td>
+                            <td className="text-right">{formatCentipawns(breakdown.terms[term].white)}</td>
+                            <td className="text-right">{formatCentipawns(breakdown.terms[term].black)}</td>
+                            <td className="text-right">{formatCentipawns(netTermScore(breakdown, term))}</td>
+                            <td className="text-right text-white/70">
+                              {previousBreakdown
+                                ? formatCentipawns(
+                                    netTermScore(breakdown, term) - netTermScore(previousBreakdown, term),
+                                  )
+                                : "–"}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="border-t border-white/10">
+                          <td className="font-sans font-medium">Total</td>
+                          <td />
+                          <td />
+                          <td className="text-right font-medium">{formatCentipawns(breakdown.score)}</td>
+                          <td className="text-right text-white/70">
+                            {previousBreakdown ? formatCentipawns(breakdown.score - previousBreakdown.score) : "–"}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                    <p className="mt-2 text-xs text-white/60">
+                      In pawns; net values favour black when positive, as on the bar. Game phase {breakdown.phase}/
+                      {MAX_PHASE}.
+                    </p>
+                  </div>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
 
             {/* Chess Board */}
             <div
@@ -1324,7 +1565,7 @@ export default function Component() {
                     key={`${rowIndex}-${colIndex}`}
                     className={`w-10 h-10 sm:w-12 sm:h-12 md:w-14 md:h-14 flex items-center justify-center text-xl sm:text-2xl md:text-3xl font-bold transition-all hover:brightness-110 active:scale-95 ${getSquareColor(rowIndex, colIndex)}`}
                     onClick={() => handleSquareClick(rowIndex, colIndex)}
-                    disabled={currentPlayer !== "white" || gameStatus !== "playing"}
+                    disabled={currentPlayer !== "white" || isGameOver || isReplaying}
                   >
                     {piece && PIECE_SYMBOLS[piece.color][piece.type]}
                   </button>
@@ -1332,6 +1573,117 @@ export default function Component() {
               )}
             </div>
 
+            {/* Replay Controls */}
+            {replay && (
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <Button
+                  onClick={() => goToPly(0)}
+                  variant="outline"
+                  size="icon"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  <ChevronsLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => goToPly(replay.ply - 1)}
+                  variant="outline"
+                  size="icon"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => setIsAutoplaying(!isAutoplaying)}
+                  variant="outline"
+                  size="icon"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  {isAutoplaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </Button>
+                <Button
+                  onClick={() => goToPly(replay.ply + 1)}
+                  variant="outline"
+                  size="icon"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => goToPly(replay.game.moves.length)}
+                  variant="outline"
+                  size="icon"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  <ChevronsRight className="w-4 h-4" />
+                </Button>
+                <Select value={String(autoplayDelay)} onValueChange={(value) => setAutoplayDelay(Number(value))}>
+                  <SelectTrigger className="w-[110px] bg-white/10 text-white border-white/20">
+                    <SelectValue placeholder="Speed" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="500">0.5s / move</SelectItem>
+                    <SelectItem value="1000">1s / move</SelectItem>
+                    <SelectItem value="2000">2s / move</SelectItem>
+                    <SelectItem value="3000">3s / move</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={resetGame}
+                  variant="outline"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  Exit Replay
+                </Button>
+              </div>
+            )}
+
+            {/* Keyboard Move Entry */}
+            <form onSubmit={submitTypedMove} className="w-full flex flex-col gap-1">
+              <div className="flex gap-2">
+                <Input
+                  value={moveInput}
+                  onChange={(event) => setMoveInput(event.target.value)}
+                  placeholder="Type a move, e.g. Nf3 or e2e4"
+                  disabled={currentPlayer !== "white" || isGameOver || isReplaying}
+                  className="bg-white/10 text-white border-white/20 placeholder:text-white/50"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={currentPlayer !== "white" || isGameOver || isReplaying}
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  Play
+                </Button>
+              </div>
+              {moveInputError && <p className="text-sm text-red-300">{moveInputError}</p>}
+            </form>
+
+            {/* Promotion Chooser */}
+            <Dialog open={pendingPromotion !== null} onOpenChange={(open) => !open && setPendingPromotion(null)}>
+              <DialogContent className="glassmorphism-dark border-white/10 text-white max-w-xs">
+                <DialogHeader>
+                  <DialogTitle>Promote Pawn</DialogTitle>
+                  <DialogDescription className="text-white/70">Choose the piece your pawn becomes.</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-4 gap-2">
+                  {PROMOTION_PIECES.map((type) => (
+                    <Button
+                      key={type}
+                      variant="outline"
+                      className="glassmorphism border-white/30 text-white hover:bg-white/20 h-14 text-3xl"
+                      onClick={() => {
+                        if (pendingPromotion) makeMove(pendingPromotion.from, pendingPromotion.to, type)
+                        setPendingPromotion(null)
+                      }}
+                    >
+                      {PIECE_SYMBOLS[currentPlayer][type]}
+                    </Button>
+                  ))}
+                </div>
+              </DialogContent>
+            </Dialog>
+
             {/* Controls */}
             <div className="flex flex-wrap gap-3 justify-center">
               <Button
@@ -1344,11 +1696,70 @@ export default function Component() {
               <Button
                 onClick={() => setIsTimerRunning(!isTimerRunning)}
                 variant="outline"
-                disabled={gameStatus !== "playing"}
+                disabled={isGameOver || isReplaying}
                 className="glassmorphism border-white/30 text-white hover:bg-white/20"
               >
                 {isTimerRunning ? "Pause" : "Resume"}
               </Button>
+              {drawClaim && currentPlayer === "white" && !isGameOver && !isReplaying && (
+                <Button
+                  onClick={() => claimDraw(drawClaim)}
+                  variant="outline"
+                  className="glassmorphism border-white/30 text-white hover:bg-white/20"
+                >
+                  Claim Draw
+                </Button>
+              )}
+              <Button
+                onClick={offerDraw}
+                variant="outline"
+                disabled={isGameOver || isReplaying || currentPlayer !== "white" || drawOfferDeclined}
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Handshake className="w-4 h-4 mr-2" />
+                Offer Draw
+              </Button>
+              <Button
+                onClick={resign}
+                variant="outline"
+                disabled={isGameOver || isReplaying}
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Flag className="w-4 h-4 mr-2" />
+                Resign
+              </Button>
+              <Button
+                onClick={() => copyFen()}
+                variant="outline"
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy FEN
+              </Button>
+              <Button
+                onClick={copyPgn}
+                variant="outline"
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy PGN
+              </Button>
+              <Button
+                onClick={downloadPgn}
+                variant="outline"
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download PGN
+              </Button>
+              <Button
+                onClick={() => setAutoQueen(!autoQueen)}
+                variant="outline"
+                className="glassmorphism border-white/30 text-white hover:bg-white/20"
+              >
+                <Crown className="w-4 h-4 mr-2" />
+                Auto-Queen: {autoQueen ? "On" : "Off"}
+              </Button>
               <Button
                 onClick={() => setSoundEnabled(!soundEnabled)}
                 variant="outline"
@@ -1370,7 +1781,11 @@ export default function Component() {
                   }`}
                 >
                   <Clock className="w-5 h-5 text-white" />
-                  <span className="font-mono text-lg text-white font-semibold">You: {formatTime(timer.white)}</span>
+                  <span className="font-mono text-lg text-white font-semibold">
+                    {replay
+                      ? `${selectedGame?.white.username ?? "White"}: ${formatTime(getReplayClock(replay, "white"))}`
+                      : `You: ${formatTime(timer.white)}`}
+                  </span>
                 </div>
               </CardContent>
             </Card>
@@ -1387,16 +1802,19 @@ export default function Component() {
                   ) : (
                     <div className="space-y-1">
                       {moveHistory.slice(-5).map((move, index) => {
-                        const actualIndex = moveHistory.length - 5 + index
-                        const moveNumber = Math.floor(actualIndex / 2) + 1
-                        const isWhiteMove = actualIndex % 2 === 0
+                        const actualIndex = Math.max(0, moveHistory.length - 5) + index
+                        const moveNumber = shownGame.positions[actualIndex].fullmoveNumber
+                        const isWhiteMove = shownGame.positions[actualIndex].turn === "white"
 
                         return (
                           <div key={actualIndex} className="flex text-sm">
                             {isWhiteMove && <span className="w-8 text-white/70 font-medium">{moveNumber}.</span>}
-                            <span className={`flex-1 ${isWhiteMove ? "text-blue-300" : "text-white/90"}`}>
-                              {(move as any).notation ||
-                                `${String.fromCharCode(97 + move.from.col)}${8 - move.from.row}-${String.fromCharCode(97 + move.to.col)}${8 - move.to.row}`}
+                            <span
+                              className={`flex-1 cursor-pointer hover:underline ${isWhiteMove ? "text-blue-300" : "text-white/90"}`}
+                              title="Copy FEN after this move"
+                              onClick={() => copyFen(actualIndex + 1)}
+                            >
+                              {move.notation || `${squareName(move.from)}-${squareName(move.to)}`}
                             </span>
                           </div>
                         )
@@ -1426,9 +1844,10 @@ export default function Component() {
         </div>
 
         {/* Game End Modal */}
-        {gameStatus !== "playing" && (
+        {outcome && (
           <Card className="glassmorphism border-white/20 mt-6 mx-auto max-w-md">
             <CardContent className="text-center p-6">
+              <p className="font-mono text-3xl text-white mb-2 drop-shadow">{formatResult(outcome.result)}</p>
               <p className="font-bold text-xl text-white mb-4 drop-shadow">{getStatusMessage()}</p>
               <Button
                 onClick={resetGame}
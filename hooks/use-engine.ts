@@ -0,0 +1,114 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { cloneBoard, getAllValidMoves, type PositionState, type ZobristHash } from "@/lib/chess"
+import {
+  MovePicker,
+  OrderingHeuristics,
+  type EngineResponse,
+  type EvaluationParameters,
+  type SearchInfo,
+  type SearchLimits,
+  type SearchResult,
+} from "@/lib/engine"
+
+// Before the first depth completes there is no line to play, so `moveNow` takes the move the
+// search would have tried first: a winning capture if there is one
+const firstOrderedMove = (position: PositionState): SearchResult => {
+  const moves = getAllValidMoves(position)
+  const move = new MovePicker(cloneBoard(position.board), moves, 0, new OrderingHeuristics(), 0).next()
+  const stats = { hashHits: 0, hashCutoffs: 0, betaCutoffs: 0, firstMoveCutoffs: 0, nullMoveCutoffs: 0, reSearches: 0 }
+  return { depth: 0, score: 0, nodes: 0, time: 0, pv: move ? [move] : [], stats, move }
+}
+
+// Runs engine searches in a Web Worker, one at a time. `result` is set when the current
+// search finishes, or straight away with the deepest completed line on `moveNow` (the first
+// move in the search's order if no depth has completed yet); starting another search or
+// cancelling throws the current one away. If the worker fails, the search is dropped and
+// `error` says why until the next search starts.
+export function useEngine() {
+  const workerRef = useRef<Worker | null>(null)
+  const isSearching = useRef(false)
+  const searchId = useRef(0)
+  const searchedPosition = useRef<PositionState | null>(null)
+  const [thinking, setThinking] = useState(false)
+  const [progress, setProgress] = useState<SearchInfo | null>(null)
+  const [result, setResult] = useState<SearchResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // A running search can't be interrupted, so cancelling one replaces the worker
+  const cancel = useCallback(() => {
+    searchId.current++
+    if (isSearching.current) {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      isSearching.current = false
+    }
+    setThinking(false)
+    setProgress(null)
+  }, [])
+
+  const search = useCallback(
+    (position: PositionState, limits: SearchLimits, history: ZobristHash[] = [], parameters?: EvaluationParameters) => {
+      cancel()
+      const worker = workerRef.current ?? new Worker(new URL("../lib/engine/worker.ts", import.meta.url))
+      const id = searchId.current
+
+      // A worker that has thrown can't be trusted with another search, so it is replaced
+      const fail = (message: string) => {
+        if (searchId.current !== id) return
+        worker.terminate()
+        if (workerRef.current === worker) workerRef.current = null
+        isSearching.current = false
+        setThinking(false)
+        setProgress(null)
+        setError(message)
+      }
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault()
+        fail(event.message || "The engine stopped unexpectedly")
+      }
+      worker.onmessageerror = () => fail("The engine sent a message that could not be read")
+
+      worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+        const message = event.data
+        if (message.id !== id) return
+        if (message.type === "progress") {
+          setProgress(message)
+        } else {
+          isSearching.current = false
+          setThinking(false)
+          setResult(message)
+        }
+      }
+
+      const { board, turn, castling, enPassant, halfmoveClock, fullmoveNumber } = position
+      worker.postMessage({
+        type: "search",
+        id,
+        position: { board, turn, castling, enPassant, halfmoveClock, fullmoveNumber },
+        history,
+        limits,
+        parameters,
+      })
+      workerRef.current = worker
+      searchedPosition.current = position
+      isSearching.current = true
+      setThinking(true)
+      setResult(null)
+      setError(null)
+    },
+    [cancel],
+  )
+
+  const moveNow = useCallback(() => {
+    const position = searchedPosition.current
+    if (!isSearching.current || !position) return
+    cancel()
+    setResult(progress ? { ...progress, move: progress.pv[0] ?? null } : firstOrderedMove(position))
+  }, [cancel, progress])
+
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return { thinking, progress, result, error, search, cancel, moveNow }
+}
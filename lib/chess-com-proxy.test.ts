@@ -0,0 +1,101 @@
+import assert from "node:assert/strict"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { ChessComProxyError, fetchChessCom } from "./chess-com-proxy"
+
+const FIXTURES = path.join(process.cwd(), "fixtures", "chess-com")
+const ARCHIVES = ["player", "MagnusCarlsen", "games", "archives"]
+
+const fixture = async (resource: string) => JSON.parse(await readFile(path.join(FIXTURES, `${resource}.json`), "utf8"))
+
+describe("fetchChessCom with fixtures", () => {
+  beforeEach(() => {
+    process.env.CHESS_COM_FIXTURES_DIR = FIXTURES
+  })
+  afterEach(() => {
+    delete process.env.CHESS_COM_FIXTURES_DIR
+  })
+
+  it("serves the saved archive list and month, whatever the username's case", async () => {
+    assert.deepEqual(await fetchChessCom(ARCHIVES), await fixture("player/magnuscarlsen/games/archives"))
+    assert.deepEqual(
+      await fetchChessCom(["player", "magnuscarlsen", "games", "2024", "01"]),
+      await fixture("player/magnuscarlsen/games/2024/01"),
+    )
+  })
+
+  it("answers 404 for a resource without a fixture", async () => {
+    await assert.rejects(
+      fetchChessCom(["player", "hikaru", "games", "archives"]),
+      new ChessComProxyError('No fixture for "player/hikaru/games/archives"', 404),
+    )
+  })
+
+  it("answers 400 for anything but an archive list or a month", async () => {
+    for (const segments of [
+      ["player", "hikaru"],
+      ["player", "hikaru", "stats"],
+      ["player", "..", "games", "archives"],
+      ["player", "hikaru", "games", "2024", "1"],
+      ["player", "a/b", "games", "archives"],
+      ["..", "..", "etc", "passwd"],
+    ]) {
+      const resource = segments.join("/").toLowerCase()
+      await assert.rejects(
+        fetchChessCom(segments),
+        new ChessComProxyError(`Unsupported Chess.com resource "${resource}"`, 400),
+      )
+    }
+  })
+})
+
+describe("fetchChessCom against Chess.com", () => {
+  const realFetch = globalThis.fetch
+  let requests: string[] = []
+  let cacheDir = ""
+
+  // Answers each request with the next status in turn; Retry-After keeps the backoff short
+  const stubFetch = (statuses: number[], body: unknown = { archives: [] }) => {
+    globalThis.fetch = async (input) => {
+      requests.push(String(input))
+      const status = statuses[Math.min(requests.length, statuses.length) - 1]
+      return new Response(JSON.stringify(body), { status, headers: { "Retry-After": "0.01" } })
+    }
+  }
+
+  beforeEach(async () => {
+    requests = []
+    cacheDir = await mkdtemp(path.join(tmpdir(), "chess-com-"))
+    process.env.CHESS_COM_CACHE_DIR = cacheDir
+  })
+  afterEach(async () => {
+    globalThis.fetch = realFetch
+    delete process.env.CHESS_COM_CACHE_DIR
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it("retries a rate-limited request and caches the answer", async () => {
+    const body = { archives: ["https://api.chess.com/pub/player/hikaru/games/2024/01"] }
+    stubFetch([429, 429, 200], body)
+
+    assert.deepEqual(await fetchChessCom(ARCHIVES), body)
+    assert.deepEqual(requests, Array(3).fill("https://api.chess.com/pub/player/magnuscarlsen/games/archives"))
+
+    assert.deepEqual(await fetchChessCom(ARCHIVES), body)
+    assert.equal(requests.length, 3)
+  })
+
+  it("gives up with a 502 after four rate-limited attempts", async () => {
+    stubFetch([429])
+    await assert.rejects(fetchChessCom(ARCHIVES), new ChessComProxyError("Chess.com returned 429", 502))
+    assert.equal(requests.length, 4)
+  })
+
+  it("passes on a 404 without retrying", async () => {
+    stubFetch([404])
+    await assert.rejects(fetchChessCom(ARCHIVES), new ChessComProxyError("Chess.com returned 404", 404))
+    assert.equal(requests.length, 1)
+  })
+})
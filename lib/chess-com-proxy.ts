@@ -0,0 +1,99 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+
+// Server-side access to the Chess.com published-data API with an on-disk cache.
+// Set CHESS_COM_FIXTURES_DIR to serve saved responses instead of calling Chess.com at all.
+
+const API_BASE = "https://api.chess.com/pub"
+
+// Read per request, so tests can switch between the fixtures and a stubbed fetch
+const cacheDir = () => process.env.CHESS_COM_CACHE_DIR || path.join(process.cwd(), ".cache", "chess-com")
+const fixturesDir = () => process.env.CHESS_COM_FIXTURES_DIR
+
+const MAX_ATTEMPTS = 4
+const ARCHIVES_TTL_MS = 60 * 60 * 1000 // new months appear rarely
+const CURRENT_MONTH_TTL_MS = 10 * 60 * 1000 // still collecting games
+const PAST_MONTH_TTL_MS = 30 * 24 * 60 * 60 * 1000 // finished months never change
+
+// The only resources the proxy forwards: a player's archive list and one month of games
+const ARCHIVES_PATH = /^player\/[a-z0-9_-]+\/games\/archives$/
+const MONTH_PATH = /^player\/[a-z0-9_-]+\/games\/(\d{4})\/(\d{2})$/
+
+export class ChessComProxyError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "ChessComProxyError"
+    this.status = status
+  }
+}
+
+interface CacheEntry {
+  fetchedAt: number
+  data: unknown
+}
+
+const ttlFor = (resource: string): number => {
+  const month = MONTH_PATH.exec(resource)
+  if (!month) return ARCHIVES_TTL_MS
+
+  const now = new Date()
+  const isFinished = Number(month[1]) * 12 + Number(month[2]) < now.getFullYear() * 12 + now.getMonth() + 1
+  return isFinished ? PAST_MONTH_TTL_MS : CURRENT_MONTH_TTL_MS
+}
+
+const readJsonFile = async <T>(file: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await readFile(file, "utf8"))
+  } catch {
+    return null
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Retries rate-limited requests, honouring Retry-After and otherwise backing off exponentially
+const fetchWithBackoff = async (url: string): Promise<unknown> => {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, { headers: { "User-Agent": "2D Chess game browser" } })
+    if (response.ok) return response.json()
+
+    if (response.status !== 429 || attempt === MAX_ATTEMPTS) {
+      throw new ChessComProxyError(`Chess.com returned ${response.status}`, response.status === 404 ? 404 : 502)
+    }
+
+    const retryAfter = Number(response.headers.get("retry-after"))
+    await sleep(retryAfter > 0 ? retryAfter * 1000 : 500 * 2 ** attempt)
+  }
+}
+
+// `segments` is the API path below /pub, e.g. ["player", "hikaru", "games", "archives"]
+export const fetchChessCom = async (segments: string[]): Promise<unknown> => {
+  const resource = segments.join("/").toLowerCase()
+  if (!ARCHIVES_PATH.test(resource) && !MONTH_PATH.test(resource)) {
+    throw new ChessComProxyError(`Unsupported Chess.com resource "${resource}"`, 400)
+  }
+
+  const fixtures = fixturesDir()
+  if (fixtures) {
+    const fixture = await readJsonFile(path.join(fixtures, `${resource}.json`))
+    if (fixture === null) throw new ChessComProxyError(`No fixture for "${resource}"`, 404)
+    return fixture
+  }
+
+  const cacheFile = path.join(cacheDir(), `${resource}.json`)
+  const cached = await readJsonFile<CacheEntry>(cacheFile)
+  if (cached && Date.now() - cached.fetchedAt < ttlFor(resource)) return cached.data
+
+  try {
+    const data = await fetchWithBackoff(`${API_BASE}/${resource}`)
+    await mkdir(path.dirname(cacheFile), { recursive: true })
+    await writeFile(cacheFile, JSON.stringify({ fetchedAt: Date.now(), data } satisfies CacheEntry))
+    return data
+  } catch (error) {
+    // A stale copy beats no games at all
+    if (cached && !(error instanceof ChessComProxyError && error.status === 404)) return cached.data
+    throw error
+  }
+}
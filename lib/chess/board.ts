@@ -0,0 +1,77 @@
+import type { Board, CastlingRights, CastlingSide, Piece, PieceColor, PieceType, Square } from "./types"
+
+export const INITIAL_BOARD: Board = [
+  [
+    { type: "rook", color: "black" },
+    { type: "knight", color: "black" },
+    { type: "bishop", color: "black" },
+    { type: "queen", color: "black" },
+    { type: "king", color: "black" },
+    { type: "bishop", color: "black" },
+    { type: "knight", color: "black" },
+    { type: "rook", color: "black" },
+  ],
+  Array(8).fill({ type: "pawn", color: "black" }),
+  Array(8).fill(null),
+  Array(8).fill(null),
+  Array(8).fill(null),
+  Array(8).fill(null),
+  Array(8).fill({ type: "pawn", color: "white" }),
+  [
+    { type: "rook", color: "white" },
+    { type: "knight", color: "white" },
+    { type: "bishop", color: "white" },
+    { type: "queen", color: "white" },
+    { type: "king", color: "white" },
+    { type: "bishop", color: "white" },
+    { type: "knight", color: "white" },
+    { type: "rook", color: "white" },
+  ],
+]
+
+export const INITIAL_CASTLING_RIGHTS: CastlingRights = {
+  white: { kingSide: true, queenSide: true },
+  black: { kingSide: true, queenSide: true },
+}
+
+export const NO_CASTLING_RIGHTS: CastlingRights = {
+  white: { kingSide: false, queenSide: false },
+  black: { kingSide: false, queenSide: false },
+}
+
+export const PROMOTION_PIECES: PieceType[] = ["queen", "rook", "bishop", "knight"]
+
+export const homeRow = (color: PieceColor): number => (color === "white" ? 7 : 0)
+
+// Where the king and rook start and finish for each castling move
+export const CASTLING_SQUARES: Record<CastlingSide, { rookFrom: number; rookTo: number; kingTo: number }> = {
+  kingSide: { rookFrom: 7, rookTo: 5, kingTo: 6 },
+  queenSide: { rookFrom: 0, rookTo: 3, kingTo: 2 },
+}
+
+export const opponentOf = (color: PieceColor): PieceColor => (color === "white" ? "black" : "white")
+
+export const isValidPosition = (row: number, col: number): boolean => {
+  return row >= 0 && row < 8 && col >= 0 && col < 8
+}
+
+export const getPieceAt = (board: Board, row: number, col: number): Piece | null => {
+  if (!isValidPosition(row, col)) return null
+  return board[row][col]
+}
+
+export const cloneBoard = (board: Board): Board => board.map((row) => [...row])
+
+export const sameSquare = (a: Square | null | undefined, b: Square | null | undefined): boolean => {
+  return !!a && !!b && a.row === b.row && a.col === b.col
+}
+
+// "e4" <-> { row: 4, col: 4 }
+export const squareName = (square: Square): string => {
+  return `${String.fromCharCode(97 + square.col)}${8 - square.row}`
+}
+
+export const parseSquare = (name: string): Square | null => {
+  if (!/^[a-h][1-8]$/.test(name)) return null
+  return { row: 8 - Number(name[1]), col: name.charCodeAt(0) - 97 }
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { FenError, INITIAL_FEN, parseFen, toFen } from "./fen"
+import { Position } from "./position"
+
+describe("parseFen", () => {
+  it("reads and writes positions unchanged", () => {
+    for (const fen of [
+      INITIAL_FEN,
+      "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+      "rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3",
+      "8/8/8/8/8/8/8/K6k b - - 37 90",
+    ]) {
+      assert.equal(toFen(parseFen(fen)), fen)
+    }
+    assert.equal(toFen(Position.initial()), INITIAL_FEN)
+  })
+
+  it("defaults the move counters when they are left off", () => {
+    assert.equal(toFen(parseFen("4k3/8/8/8/8/8/8/4K3 w - -")), "4k3/8/8/8/8/8/8/4K3 w - - 0 1")
+  })
+
+  it("explains what is wrong with a bad FEN", () => {
+    const cases: [string, string][] = [
+      ["4k3/8/8/8/8/8/8/4K3 w -", "Expected 6 space-separated fields, found 3"],
+      ["4k3/8/8/8/8/8/4K3 w - - 0 1", 'Piece placement must have 8 ranks separated by "/", found 7'],
+      ["4k3/8/8/8/8/8/8/4K2 w - - 0 1", "Rank 1 describes 7 squares instead of 8"],
+      ["4k3/8/8/8/8/8/8/4X3 w - - 0 1", 'Unexpected character "X" on rank 1'],
+      ["8/8/8/8/8/8/8/4K3 w - - 0 1", "Expected exactly one black king, found 0"],
+      ["4k3/8/8/8/8/8/8/P3K3 w - - 0 1", "Pawn on a1: pawns cannot stand on the first or last rank"],
+      ["4k3/8/8/8/8/8/8/4K3 x - - 0 1", 'Side to move must be "w" or "b", got "x"'],
+      ["4k3/8/8/8/8/8/8/4K3 w K - 0 1", 'Castling flag "K" needs a white rook on h1'],
+      ["4k3/8/8/8/8/8/8/4K3 w - e6 0 1", "En passant square e6 has no black pawn in front of it"],
+      ["8/8/8/8/8/8/8/K6k w - a1 0 1", "En passant square a1 must be on rank 6 when w is to move"],
+      ["4k3/8/8/8/8/8/8/4K3 w - - -1 1", 'Halfmove clock must be a whole number of at least 0, got "-1"'],
+    ]
+    for (const [fen, message] of cases) {
+      assert.throws(() => parseFen(fen), new FenError(message), fen)
+    }
+  })
+})
@@ -0,0 +1,178 @@
+import { CASTLING_SQUARES, homeRow, NO_CASTLING_RIGHTS, opponentOf, parseSquare, squareName } from "./board"
+import { PIECE_LETTERS } from "./notation"
+import { Position } from "./position"
+import { isInCheck, pawnDirection } from "./rules"
+import type { Board, CastlingRights, CastlingSide, Piece, PieceColor, PieceType } from "./types"
+
+export const INITIAL_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+
+export class FenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FenError"
+  }
+}
+
+const PIECE_TYPES: Record<string, PieceType> = {
+  p: "pawn",
+  n: "knight",
+  b: "bishop",
+  r: "rook",
+  q: "queen",
+  k: "king",
+}
+
+const CASTLING_FLAGS: { flag: string; color: PieceColor; side: CastlingSide }[] = [
+  { flag: "K", color: "white", side: "kingSide" },
+  { flag: "Q", color: "white", side: "queenSide" },
+  { flag: "k", color: "black", side: "kingSide" },
+  { flag: "q", color: "black", side: "queenSide" },
+]
+
+const pieceToFen = (piece: Piece): string => {
+  const letter = piece.type === "pawn" ? "P" : PIECE_LETTERS[piece.type]
+  return piece.color === "white" ? letter : letter.toLowerCase()
+}
+
+const parsePlacement = (placement: string): Board => {
+  const ranks = placement.split("/")
+  if (ranks.length !== 8) {
+    throw new FenError(`Piece placement must have 8 ranks separated by "/", found ${ranks.length}`)
+  }
+
+  const board = ranks.map((rank, row) => {
+    const rankName = 8 - row
+    const squares: (Piece | null)[] = []
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        squares.push(...Array(Number(char)).fill(null))
+      } else if (PIECE_TYPES[char.toLowerCase()]) {
+        squares.push({ type: PIECE_TYPES[char.toLowerCase()], color: char === char.toUpperCase() ? "white" : "black" })
+      } else {
+        throw new FenError(`Unexpected character "${char}" on rank ${rankName}`)
+      }
+    }
+    if (squares.length !== 8) {
+      throw new FenError(`Rank ${rankName} describes ${squares.length} squares instead of 8`)
+    }
+    return squares
+  })
+
+  for (const color of ["white", "black"] as PieceColor[]) {
+    const kings = board.flat().filter((piece) => piece?.type === "king" && piece.color === color).length
+    if (kings !== 1) throw new FenError(`Expected exactly one ${color} king, found ${kings}`)
+  }
+
+  for (const row of [0, 7]) {
+    const col = board[row].findIndex((piece) => piece?.type === "pawn")
+    if (col !== -1)
+      throw new FenError(`Pawn on ${squareName({ row, col })}: pawns cannot stand on the first or last rank`)
+  }
+
+  return board
+}
+
+const parseCastling = (field: string, board: Board): CastlingRights => {
+  const rights: CastlingRights = { white: { ...NO_CASTLING_RIGHTS.white }, black: { ...NO_CASTLING_RIGHTS.black } }
+  if (field === "-") return rights
+  if (!/^[KQkq]+$/.test(field)) throw new FenError(`Invalid castling availability "${field}"`)
+
+  for (const char of field) {
+    const { color, side } = CASTLING_FLAGS.find(({ flag }) => flag === char)!
+    if (rights[color][side]) throw new FenError(`Castling flag "${char}" appears more than once`)
+
+    const row = homeRow(color)
+    const rookSquare = { row, col: CASTLING_SQUARES[side].rookFrom }
+    const king = board[row][4]
+    const rook = board[rookSquare.row][rookSquare.col]
+    if (king?.type !== "king" || king.color !== color) {
+      throw new FenError(`Castling flag "${char}" needs the ${color} king on ${squareName({ row, col: 4 })}`)
+    }
+    if (rook?.type !== "rook" || rook.color !== color) {
+      throw new FenError(`Castling flag "${char}" needs a ${color} rook on ${squareName(rookSquare)}`)
+    }
+    rights[color][side] = true
+  }
+  return rights
+}
+
+const parseCounter = (field: string, name: string, min: number): number => {
+  if (!/^\d+$/.test(field) || Number(field) < min) {
+    throw new FenError(`${name} must be a whole number of at least ${min}, got "${field}"`)
+  }
+  return Number(field)
+}
+
+// Parses all six FEN fields. The two move counters may be left off, as many tools do.
+export const parseFen = (fen: string): Position => {
+  const fields = fen.trim().split(/\s+/)
+  if (fields.length !== 4 && fields.length !== 6) {
+    throw new FenError(`Expected 6 space-separated fields, found ${fields.length}`)
+  }
+  const [placement, side, castlingField, enPassantField, halfmoveField = "0", fullmoveField = "1"] = fields
+
+  const board = parsePlacement(placement)
+
+  if (side !== "w" && side !== "b") throw new FenError(`Side to move must be "w" or "b", got "${side}"`)
+  const turn: PieceColor = side === "w" ? "white" : "black"
+
+  const castling = parseCastling(castlingField, board)
+
+  let enPassant = null
+  if (enPassantField !== "-") {
+    enPassant = parseSquare(enPassantField)
+    if (!enPassant) throw new FenError(`Invalid en passant square "${enPassantField}"`)
+
+    // The pawn that just double-pushed belongs to the side that is not to move
+    const mover = opponentOf(turn)
+    const expectedRank = turn === "white" ? 6 : 3
+    if (8 - enPassant.row !== expectedRank) {
+      throw new FenError(`En passant square ${enPassantField} must be on rank ${expectedRank} when ${side} is to move`)
+    }
+    const pawn = board[enPassant.row + pawnDirection(mover)][enPassant.col]
+    if (pawn?.type !== "pawn" || pawn.color !== mover) {
+      throw new FenError(`En passant square ${enPassantField} has no ${mover} pawn in front of it`)
+    }
+  }
+
+  const halfmoveClock = parseCounter(halfmoveField, "Halfmove clock", 0)
+  const fullmoveNumber = parseCounter(fullmoveField, "Fullmove number", 1)
+
+  if (isInCheck(board, opponentOf(turn))) {
+    throw new FenError(`The side not to move (${opponentOf(turn)}) is in check`)
+  }
+
+  return new Position({ board, turn, castling, enPassant, halfmoveClock, fullmoveNumber })
+}
+
+export const toFen = (position: Position): string => {
+  const placement = position.board
+    .map((row) => {
+      let rank = ""
+      let empty = 0
+      for (const piece of row) {
+        if (!piece) {
+          empty++
+          continue
+        }
+        if (empty) rank += empty
+        empty = 0
+        rank += pieceToFen(piece)
+      }
+      return empty ? rank + empty : rank
+    })
+    .join("/")
+
+  const castling = CASTLING_FLAGS.filter(({ color, side }) => position.castling[color][side])
+    .map(({ flag }) => flag)
+    .join("")
+
+  return [
+    placement,
+    position.turn === "white" ? "w" : "b",
+    castling || "-",
+    position.enPassant ? squareName(position.enPassant) : "-",
+    position.halfmoveClock,
+    position.fullmoveNumber,
+  ].join(" ")
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseFen } from "./fen"
+import { Game } from "./game"
+import { drawBy, winFor } from "./result"
+import { parseSan } from "./san"
+
+const play = (game: Game, ...moves: string[]): Game =>
+  moves.reduce((current, san) => current.play(parseSan(current.position, san)), game)
+
+const KNIGHT_SHUFFLE = ["Nf3", "Nf6", "Ng1", "Ng8"]
+
+describe("Game draws", () => {
+  it("lets threefold repetition be claimed and ends the game on the fifth", () => {
+    let game = play(Game.fromPosition(), ...KNIGHT_SHUFFLE)
+    assert.equal(game.claimableDraw(), null)
+    game = play(game, ...KNIGHT_SHUFFLE)
+    assert.equal(game.repetitionCount(), 3)
+    assert.equal(game.claimableDraw(), "threefoldRepetition")
+    assert.equal(game.isOver(), false)
+    game = play(game, ...KNIGHT_SHUFFLE, ...KNIGHT_SHUFFLE)
+    assert.equal(game.status(), "fivefoldRepetition")
+    assert.deepEqual(game.outcome(), drawBy("fivefoldRepetition"))
+  })
+
+  it("does not count an en passant square nobody can capture on", () => {
+    // After 1. e4 the e3 square is set, but no black pawn can take there
+    const game = play(Game.fromPosition(), "e4", "Nf6", "Nf3", "Ng8", "Ng1", "Nf6", "Nf3", "Ng8", "Ng1")
+    assert.equal(game.repetitionCount(), 3)
+  })
+
+  it("lets fifty moves be claimed and ends the game at seventy-five", () => {
+    const fifty = Game.fromPosition(parseFen("4k3/8/8/8/8/8/8/R3K3 w - - 99 80"))
+    assert.equal(fifty.claimableDraw(), null)
+    assert.equal(play(fifty, "Ra2").claimableDraw(), "fiftyMove")
+    assert.equal(play(fifty, "Ra2").isOver(), false)
+    const seventyFive = Game.fromPosition(parseFen("4k3/8/8/8/8/8/8/R3K3 w - - 149 100"))
+    assert.equal(play(seventyFive, "Ra2").status(), "seventyFiveMove")
+  })
+
+  it("ends the game at once when no one can mate", () => {
+    const game = play(Game.fromPosition(parseFen("4k3/8/8/8/8/8/8/3rK3 w - - 0 1")), "Kxd1")
+    assert.deepEqual(game.outcome(), drawBy("insufficientMaterial"))
+  })
+
+  it("knows checkmate and stalemate", () => {
+    const mate = play(Game.fromPosition(), "f3", "e5", "g4", "Qh4#")
+    assert.deepEqual(mate.outcome(), winFor("black", "checkmate"))
+    const stalemate = play(Game.fromPosition(parseFen("7k/8/6Q1/8/8/8/8/K7 w - - 0 1")), "Qf7")
+    assert.deepEqual(stalemate.outcome(), drawBy("stalemate"))
+  })
+})
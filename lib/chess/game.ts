@@ -0,0 +1,90 @@
+import { moveToAlgebraicNotation } from "./notation"
+import { Position } from "./position"
+import { outcomeFromStatus, type GameOutcome } from "./result"
+import { isInsufficientMaterial } from "./rules"
+import type { DrawClaim, GameStatus, Move, PieceType, Square } from "./types"
+
+// An immutable game record: the starting position plus every move played from it
+export class Game {
+  readonly positions: readonly Position[]
+  readonly moves: readonly Move[]
+  // Set when the game ends off the board: a flag fall, resignation, agreed or claimed draw
+  private readonly declaredOutcome: GameOutcome | null
+
+  private constructor(positions: readonly Position[], moves: readonly Move[], declaredOutcome: GameOutcome | null) {
+    this.positions = positions
+    this.moves = moves
+    this.declaredOutcome = declaredOutcome
+  }
+
+  static fromPosition(start: Position = Position.initial()): Game {
+    return new Game([start], [], null)
+  }
+
+  get position(): Position {
+    return this.positions[this.positions.length - 1]
+  }
+
+  get startPosition(): Position {
+    return this.positions[0]
+  }
+
+  // How many times the current position has occurred, counting this occurrence
+  repetitionCount(): number {
+    const key = this.position.repetitionKey()
+    return this.positions.filter((position) => position.repetitionKey() === key).length
+  }
+
+  // Checkmate and stalemate come first; fivefold repetition, the seventy-five-move rule and dead
+  // positions end the game automatically, while threefold repetition and fifty moves must be claimed
+  status(): GameStatus {
+    const status = this.position.status()
+    if (status === "checkmate" || status === "stalemate") return status
+    if (this.repetitionCount() >= 5) return "fivefoldRepetition"
+    if (this.position.halfmoveClock >= 150) return "seventyFiveMove"
+    if (isInsufficientMaterial(this.position.board)) return "insufficientMaterial"
+    return status
+  }
+
+  // The finished game's result and how it came about, or null while it is still in progress
+  outcome(): GameOutcome | null {
+    return this.declaredOutcome ?? outcomeFromStatus(this.status(), this.position.turn)
+  }
+
+  isOver(): boolean {
+    return this.outcome() !== null
+  }
+
+  // Ends the game with an outcome the board cannot decide by itself
+  end(outcome: GameOutcome): Game {
+    return new Game(this.positions, this.moves, outcome)
+  }
+
+  // The draw the side to move could claim right now, if any
+  claimableDraw(): DrawClaim | null {
+    if (this.repetitionCount() >= 3) return "threefoldRepetition"
+    if (this.position.halfmoveClock >= 100) return "fiftyMove"
+    return null
+  }
+
+  // Plays the move from `from` to `to`, returning null when it is not legal
+  move(from: Square, to: Square, promotion?: PieceType): Game | null {
+    const move = this.position.findMove(from, to, promotion)
+    return move ? this.play(move) : null
+  }
+
+  // `move` must be one of the current position's legal moves
+  play(move: Move): Game {
+    const notation = moveToAlgebraicNotation(this.position, move)
+    return new Game([...this.positions, this.position.play(move)], [...this.moves, { ...move, notation }], null)
+  }
+
+  // The game as it stood after its first `ply` half-moves
+  upTo(ply: number): Game {
+    return new Game(this.positions.slice(0, ply + 1), this.moves.slice(0, ply), null)
+  }
+
+  get lastMove(): Move | null {
+    return this.moves[this.moves.length - 1] ?? null
+  }
+}
@@ -0,0 +1,12 @@
+export * from "./types"
+export * from "./board"
+export * from "./rules"
+export * from "./notation"
+export * from "./result"
+export * from "./fen"
+export * from "./san"
+export * from "./pgn"
+export * from "./zobrist"
+export * from "./polyglot"
+export { Position } from "./position"
+export { Game } from "./game"
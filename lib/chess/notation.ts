@@ -0,0 +1,62 @@
+import { sameSquare, squareName } from "./board"
+import { getAllValidMoves, isCheckmate, isInCheck, playMove } from "./rules"
+import type { Move, PositionState } from "./types"
+
+export const PIECE_LETTERS = {
+  pawn: "",
+  knight: "N",
+  bishop: "B",
+  rook: "R",
+  queen: "Q",
+  king: "K",
+} as const
+
+// Standard algebraic notation for a legal `move` played from `state`
+export const moveToAlgebraicNotation = (state: PositionState, move: Move): string => {
+  const { from, to, piece, capturedPiece } = move
+  const next = playMove(state, move)
+  const suffix = isCheckmate(next) ? "#" : isInCheck(next.board, next.turn) ? "+" : ""
+
+  // Handle castling
+  if (move.castle) {
+    return (move.castle === "kingSide" ? "O-O" : "O-O-O") + suffix
+  }
+
+  let notation = PIECE_LETTERS[piece.type]
+
+  // Check for disambiguation
+  if (piece.type !== "pawn") {
+    const rivals = getAllValidMoves(state).filter(
+      (other) => other.piece.type === piece.type && sameSquare(other.to, to) && !sameSquare(other.from, from),
+    )
+
+    if (rivals.length > 0) {
+      const sameFile = rivals.some((other) => other.from.col === from.col)
+      const sameRank = rivals.some((other) => other.from.row === from.row)
+
+      if (!sameFile) {
+        notation += squareName(from)[0]
+      } else if (!sameRank) {
+        notation += squareName(from)[1]
+      } else {
+        notation += squareName(from)
+      }
+    }
+  }
+
+  // Capture notation
+  if (capturedPiece) {
+    if (piece.type === "pawn") {
+      notation += squareName(from)[0]
+    }
+    notation += "x"
+  }
+
+  notation += squareName(to)
+
+  if (move.promotion) {
+    notation += `=${PIECE_LETTERS[move.promotion]}`
+  }
+
+  return notation + suffix
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { toFen } from "./fen"
+import { formatPgnClock, parsePgn, parseTimeControl, pgnToGame, PgnError, writePgn } from "./pgn"
+
+describe("parsePgn", () => {
+  it("reads tags, comments, annotations and nested variations", () => {
+    const [game] = parsePgn(`[Event "Test"]
+[White "A"]
+[Black "B"]
+[Result "1-0"]
+
+{Opening} 1. e4 $1 {Best by test} e5 (1... c5 2. Nf3 (2. c3) d6) 2. Nf3 ; rest of line
+Nc6 1-0`)
+    assert.equal(game.tags.Event, "Test")
+    assert.equal(game.result, "1-0")
+    assert.deepEqual(game.comments, ["Opening"])
+    assert.deepEqual(
+      game.moves.map((node) => node.san),
+      ["e4", "e5", "Nf3", "Nc6"],
+    )
+    assert.deepEqual(game.moves[0].nags, [1])
+    assert.deepEqual(game.moves[0].comments, ["Best by test"])
+    assert.deepEqual(game.moves[2].comments, ["rest of line"])
+
+    const [sicilian] = game.moves[1].variations
+    assert.deepEqual(
+      sicilian.map((node) => node.san),
+      ["c5", "Nf3", "d6"],
+    )
+    assert.deepEqual(
+      sicilian[1].variations.map((line) => line.map((node) => node.san)),
+      [["c3"]],
+    )
+  })
+
+  it("reads clock and evaluation commands out of comments", () => {
+    const [game] = parsePgn("1. e4 { [%clk 1:02:03.5] [%eval 0.25] good } e5 { [%clk 0:00:09] [%eval #-3] } *")
+    assert.equal(game.moves[0].clock, 3723.5)
+    assert.deepEqual(game.moves[0].eval, { pawns: 0.25 })
+    assert.deepEqual(game.moves[0].comments, ["good"])
+    assert.equal(game.moves[1].clock, 9)
+    assert.deepEqual(game.moves[1].eval, { mate: -3 })
+    assert.deepEqual(game.moves[1].comments, [])
+  })
+
+  it("starts from the FEN tag and reads several games", () => {
+    const games = parsePgn(`[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1"]
+
+1. e4 Kd7 *
+
+[Event "Second"]
+
+1. d4 *`)
+    assert.equal(games.length, 2)
+    assert.equal(toFen(pgnToGame(games[0]).position), "8/3k4/8/8/4P3/8/8/4K3 w - - 1 2")
+    assert.equal(games[1].tags.Event, "Second")
+  })
+
+  it("reports illegal moves and unmatched parentheses with their position", () => {
+    assert.throws(() => parsePgn("1. e4 e5\n2. Ke3"), PgnError)
+    assert.throws(() => parsePgn("1. e4 e5 )"), new PgnError('Unmatched ")"', 1, 10))
+  })
+
+  it("reports a stray closing brace or bracket with its line and column", () => {
+    assert.throws(() => parsePgn("1. e4 } e5"), new PgnError('Unexpected "}"', 1, 7))
+    assert.throws(() => parsePgn("1. e4 e5\n2. Nf3 ]"), new PgnError('Unexpected "]"', 2, 8))
+  })
+})
+
+describe("formatPgnClock", () => {
+  it("writes tenths only when the clock has them", () => {
+    assert.equal(formatPgnClock(3723), "1:02:03")
+    assert.equal(formatPgnClock(59.5), "0:00:59.5")
+  })
+
+  it("carries tenths that round up into the seconds, minutes and hours", () => {
+    assert.equal(formatPgnClock(59.96), "0:01:00")
+    assert.equal(formatPgnClock(3599.95), "1:00:00")
+    assert.equal(formatPgnClock(12.04), "0:00:12")
+  })
+})
+
+describe("writePgn", () => {
+  it("writes the moves with clocks and reads back the same game", () => {
+    const [record] = parsePgn("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 *")
+    const text = writePgn(pgnToGame(record), { tags: { Event: "Casual" }, clocks: [300, 299.5] })
+    assert.match(text, /\[Event "Casual"\]/)
+    assert.match(text, /\[Site "\?"\]/)
+    assert.match(text, /1\. e4 \{\[%clk 0:05:00\]\} 1\.\.\. e5 \{\[%clk 0:04:59\.5\]\} 2\. Nf3/)
+    const [again] = parsePgn(text)
+    assert.deepEqual(
+      again.moves.map((node) => node.clock),
+      [300, 299.5, undefined, undefined, undefined, undefined],
+    )
+  })
+})
+
+describe("parseTimeControl", () => {
+  it("reads sudden death, increments, move counts, sandclocks and several periods", () => {
+    assert.deepEqual(parseTimeControl("300"), [{ seconds: 300, increment: 0 }])
+    assert.deepEqual(parseTimeControl("180+2"), [{ seconds: 180, increment: 2 }])
+    assert.deepEqual(parseTimeControl("1/259200"), [{ moves: 1, seconds: 259200, increment: 0 }])
+    assert.deepEqual(parseTimeControl("*180"), [{ seconds: 180, increment: 0, sandclock: true }])
+    assert.deepEqual(parseTimeControl("40/7200:3600+30"), [
+      { moves: 40, seconds: 7200, increment: 0 },
+      { seconds: 3600, increment: 30 },
+    ])
+  })
+
+  it("gives null for unknown, missing or unreadable time controls", () => {
+    for (const tag of ["?", "-", "", "5 min", "300+"]) assert.equal(parseTimeControl(tag), null, tag)
+  })
+})
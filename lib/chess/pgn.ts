@@ -0,0 +1,392 @@
+import { INITIAL_FEN, parseFen, toFen } from "./fen"
+import { Game } from "./game"
+import { moveToAlgebraicNotation } from "./notation"
+import { Position } from "./position"
+import type { GameResult } from "./result"
+import { parseSan, SanError } from "./san"
+import type { Move } from "./types"
+
+export const SEVEN_TAG_ROSTER = ["Event", "Site", "Date", "Round", "White", "Black", "Result"] as const
+
+export class PgnError extends Error {
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`)
+    this.name = "PgnError"
+    this.line = line
+    this.column = column
+  }
+}
+
+// Engine evaluation from a [%eval ...] command, from white's point of view
+export type PgnEval = { pawns: number } | { mate: number }
+
+export interface PgnMoveNode {
+  san: string
+  move: Move
+  nags: number[]
+  comments: string[]
+  // Remaining clock time in seconds after the move, from [%clk h:mm:ss]
+  clock?: number
+  eval?: PgnEval
+  // Alternatives to this move, each starting from the position before it
+  variations: PgnMoveNode[][]
+}
+
+export interface PgnGame {
+  tags: Record<string, string>
+  startPosition: Position
+  // Comments that appear before the first move
+  comments: string[]
+  moves: PgnMoveNode[]
+  result: GameResult
+}
+
+type TokenType = "tag" | "comment" | "open" | "close" | "nag" | "result" | "san"
+
+interface Token {
+  type: TokenType
+  value: string
+  // Only set for tag pairs
+  name?: string
+  line: number
+  column: number
+}
+
+const SUFFIX_NAGS: Record<string, number> = { "!": 1, "?": 2, "!!": 3, "??": 4, "!?": 5, "?!": 6 }
+
+const RESULTS: Record<string, GameResult> = {
+  "1-0": "1-0",
+  "0-1": "0-1",
+  "1/2-1/2": "1/2-1/2",
+  "½-½": "1/2-1/2",
+  "*": "*",
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+  let line = 1
+  let column = 1
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (text[index] === "\n") {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+      index++
+    }
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+    const start = { line, column }
+
+    if (/\s/.test(char)) {
+      advance(1)
+    } else if (char === "%" && column === 1) {
+      // Escape mechanism: the whole line is ignored
+      const end = text.indexOf("\n", index)
+      advance((end === -1 ? text.length : end) - index)
+    } else if (char === ";") {
+      const end = text.indexOf("\n", index)
+      const stop = end === -1 ? text.length : end
+      tokens.push({ type: "comment", value: text.slice(index + 1, stop).trim(), ...start })
+      advance(stop - index)
+    } else if (char === "{") {
+      const end = text.indexOf("}", index)
+      if (end === -1) throw new PgnError("Unterminated comment", line, column)
+      tokens.push({ type: "comment", value: text.slice(index + 1, end).trim(), ...start })
+      advance(end + 1 - index)
+    } else if (char === "[") {
+      const match = /^\[\s*([A-Za-z0-9_]+)\s*"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(index))
+      if (!match) throw new PgnError("Malformed tag pair", line, column)
+      tokens.push({ type: "tag", name: match[1], value: match[2].replace(/\\(["\\])/g, "$1"), ...start })
+      advance(match[0].length)
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "open" : "close", value: char, ...start })
+      advance(1)
+    } else if (char === "$") {
+      const match = /^\$(\d+)/.exec(text.slice(index))
+      if (!match) throw new PgnError('Expected a number after "$"', line, column)
+      tokens.push({ type: "nag", value: match[1], ...start })
+      advance(match[0].length)
+    } else {
+      const match = /^[^\s{}()[\];$]+/.exec(text.slice(index))
+      // Stray closing braces and brackets are all that's left to match nothing here
+      if (!match) throw new PgnError(`Unexpected "${char}"`, line, column)
+      const word = match[0]
+      advance(word.length)
+
+      if (RESULTS[word]) {
+        tokens.push({ type: "result", value: word, ...start })
+        continue
+      }
+
+      // Move numbers may be glued to the move that follows them, as in "12.e4" or "12...Nf6"
+      const numbered = /^(\d+)(\.*)(.*)$/.exec(word)
+      const san = numbered && (numbered[2] || !numbered[3]) ? numbered[3] : word
+      if (!san) continue
+
+      const suffix = /[!?]+$/.exec(san)
+      if (suffix && san.length > suffix[0].length) {
+        const sanColumn = start.column + word.length - san.length
+        tokens.push({ type: "san", value: san.slice(0, -suffix[0].length), line, column: sanColumn })
+        const nag = SUFFIX_NAGS[suffix[0]]
+        if (nag) tokens.push({ type: "nag", value: String(nag), line, column: sanColumn })
+      } else {
+        tokens.push({ type: "san", value: san, line: start.line, column: start.column + word.length - san.length })
+      }
+    }
+  }
+
+  return tokens
+}
+
+// Pulls [%clk ...] and [%eval ...] commands out of a comment, returning the remaining text
+const readCommands = (comment: string, node: PgnMoveNode | null): string => {
+  return comment
+    .replace(/\[%(\w+)\s+([^\]]*)\]/g, (command, name: string, value: string) => {
+      if (!node) return command
+      value = value.trim()
+      if (name === "clk") {
+        const parts = value.split(":").map(Number)
+        if (parts.every((part) => !Number.isNaN(part))) {
+          node.clock = parts.reduce((total, part) => total * 60 + part, 0)
+        }
+      } else if (name === "eval") {
+        const score = value.split(",")[0]
+        if (score.startsWith("#")) {
+          node.eval = { mate: Number(score.slice(1)) }
+        } else if (!Number.isNaN(Number(score))) {
+          node.eval = { pawns: Number(score) }
+        }
+      } else {
+        return command
+      }
+      return ""
+    })
+    .trim()
+}
+
+class PgnParser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  parseGames(): PgnGame[] {
+    const games: PgnGame[] = []
+    while (this.peek()) {
+      games.push(this.parseGame())
+    }
+    return games
+  }
+
+  private parseGame(): PgnGame {
+    const tags: Record<string, string> = {}
+    while (this.peek()?.type === "tag") {
+      const token = this.tokens[this.index++]
+      tags[token.name!] = token.value
+    }
+
+    let startPosition = Position.initial()
+    if (tags.FEN) {
+      try {
+        startPosition = parseFen(tags.FEN)
+      } catch (error) {
+        const token = this.tokens[this.index - 1]
+        throw new PgnError(`Invalid FEN tag: ${(error as Error).message}`, token.line, token.column)
+      }
+    }
+
+    const comments: string[] = []
+    const moves = this.parseLine(startPosition, comments, 0)
+
+    let result: GameResult = "*"
+    const token = this.peek()
+    if (token?.type === "result") {
+      result = RESULTS[token.value]
+      this.index++
+    } else if (token && token.type !== "tag") {
+      throw new PgnError(`Unexpected "${token.value}"`, token.line, token.column)
+    }
+
+    return { tags, startPosition, comments, moves, result }
+  }
+
+  // Reads moves until a result, a closing parenthesis, the next game's tags or the end of input
+  private parseLine(start: Position, leadingComments: string[], depth: number): PgnMoveNode[] {
+    const nodes: PgnMoveNode[] = []
+    const positions = [start]
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      const last = nodes[nodes.length - 1] ?? null
+
+      if (token.type === "tag" || token.type === "result") break
+      if (token.type === "close") {
+        if (depth === 0) throw new PgnError('Unmatched ")"', token.line, token.column)
+        break
+      }
+
+      this.index++
+      switch (token.type) {
+        case "comment": {
+          const text = readCommands(token.value, last)
+          if (text) (last ? last.comments : leadingComments).push(text)
+          break
+        }
+
+        case "nag":
+          if (!last) throw new PgnError("Annotation glyph before any move", token.line, token.column)
+          last.nags.push(Number(token.value))
+          break
+
+        case "open": {
+          if (!last) throw new PgnError("Variation before any move", token.line, token.column)
+          const variation = this.parseLine(positions[positions.length - 2], last.comments, depth + 1)
+          const close = this.peek()
+          if (close?.type !== "close") {
+            throw new PgnError("Unterminated variation", token.line, token.column)
+          }
+          this.index++
+          last.variations.push(variation)
+          break
+        }
+
+        case "san": {
+          const position = positions[positions.length - 1]
+          let move: Move
+          try {
+            move = parseSan(position, token.value)
+          } catch (error) {
+            if (error instanceof SanError) throw new PgnError(error.message, token.line, token.column)
+            throw error
+          }
+          nodes.push({ san: token.value, move, nags: [], comments: [], variations: [] })
+          positions.push(position.play(move))
+          break
+        }
+      }
+    }
+
+    return nodes
+  }
+}
+
+// Parses every game in a PGN file, resolving each move against the position it is played in
+export const parsePgn = (text: string): PgnGame[] => {
+  return new PgnParser(tokenize(text)).parseGames()
+}
+
+// Replays a parsed game's mainline from its starting position
+export const pgnToGame = (record: PgnGame): Game => {
+  return record.moves.reduce((game, node) => game.play(node.move), Game.fromPosition(record.startPosition))
+}
+
+export interface PgnExportOptions {
+  // Tag pairs to write; the seven-tag roster is always present and filled with "?" when missing
+  tags?: Record<string, string>
+  // Clock time left for the mover after each ply, in seconds
+  clocks?: (number | undefined)[]
+  maxLineLength?: number
+}
+
+const escapeTagValue = (value: string): string => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+
+// h:mm:ss, with tenths only when the clock has them
+export const formatPgnClock = (seconds: number): string => {
+  // Rounded once, so a fraction that rounds up carries into the seconds
+  const tenths = Math.round(seconds * 10)
+  const whole = Math.floor(tenths / 10)
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  const time = `${Math.floor(whole / 3600)}:${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}`
+  return tenths % 10 ? `${time}.${tenths % 10}` : time
+}
+
+// One period of a TimeControl tag: `seconds` for `moves` moves (or the rest of the game when
+// there is no move count), plus `increment` seconds after each move. A sandclock period has the
+// clock run for both sides at once.
+export interface TimeControlPeriod {
+  moves?: number
+  seconds: number
+  increment: number
+  sandclock?: boolean
+}
+
+// Reads a TimeControl tag such as "300+2", "40/7200:3600", "1/259200" or "*180". Null when the
+// time control is unknown ("?"), there is none ("-") or the tag can't be read.
+export const parseTimeControl = (tag: string): TimeControlPeriod[] | null => {
+  const periods: TimeControlPeriod[] = []
+  for (const field of tag.trim().split(":")) {
+    const match = /^(?:(\d+)\/(\d+)|(\d+)(?:\+(\d+))?|\*(\d+))$/.exec(field)
+    if (!match) return null
+    const [, moves, movesSeconds, seconds, increment, sandclock] = match
+    if (moves) periods.push({ moves: Number(moves), seconds: Number(movesSeconds), increment: 0 })
+    else if (seconds) periods.push({ seconds: Number(seconds), increment: Number(increment ?? 0) })
+    else periods.push({ seconds: Number(sandclock), increment: 0, sandclock: true })
+  }
+  return periods
+}
+
+export const formatPgnDate = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`
+}
+
+// Export-format PGN for the game's mainline: roster tags first, then any extras in the given order
+export const writePgn = (game: Game, options: PgnExportOptions = {}): string => {
+  const { clocks = [], maxLineLength = 80 } = options
+  const result = game.outcome()?.result ?? "*"
+
+  const tags: Record<string, string> = {}
+  for (const name of SEVEN_TAG_ROSTER) tags[name] = options.tags?.[name] ?? "?"
+  Object.assign(tags, options.tags, { Result: result })
+  if (toFen(game.startPosition) !== INITIAL_FEN) {
+    tags.SetUp = "1"
+    tags.FEN = toFen(game.startPosition)
+  }
+
+  const tokens: string[] = []
+  let needsNumber = true
+  game.moves.forEach((move, index) => {
+    const before = game.positions[index]
+    if (before.turn === "white") {
+      tokens.push(`${before.fullmoveNumber}.`)
+    } else if (needsNumber) {
+      tokens.push(`${before.fullmoveNumber}...`)
+    }
+    tokens.push(move.notation ?? moveToAlgebraicNotation(before, move))
+    needsNumber = false
+
+    const clock = clocks[index]
+    if (clock !== undefined) {
+      tokens.push(`{[%clk ${formatPgnClock(clock)}]}`)
+      needsNumber = true
+    }
+  })
+  tokens.push(result)
+
+  const lines: string[] = []
+  let line = ""
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > maxLineLength) {
+      lines.push(line)
+      line = token
+    } else {
+      line = line ? `${line} ${token}` : token
+    }
+  }
+  lines.push(line)
+
+  const header = Object.entries(tags).map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`)
+  return `${header.join("\n")}\n\n${lines.join("\n")}\n`
+}
@@ -0,0 +1,109 @@
+import { getPieceAt, INITIAL_BOARD, INITIAL_CASTLING_RIGHTS, sameSquare } from "./board"
+import { getAllValidMoves, isInCheck, playMove } from "./rules"
+import { hasEnPassantKey, updateZobristHash, zobristHash, zobristKey, type ZobristHash } from "./zobrist"
+import type {
+  Board,
+  CastlingRights,
+  GameStatus,
+  Move,
+  Piece,
+  PieceColor,
+  PieceType,
+  PositionState,
+  Square,
+} from "./types"
+
+// An immutable chess position. Playing a move returns a new Position.
+export class Position implements PositionState {
+  readonly board: Board
+  readonly turn: PieceColor
+  readonly castling: CastlingRights
+  readonly enPassant: Square | null
+  readonly halfmoveClock: number
+  readonly fullmoveNumber: number
+  readonly hash: ZobristHash
+  private moves: Move[] | null = null
+
+  // `hash` is worked out from the state when not given
+  constructor(state: PositionState, hash?: ZobristHash) {
+    this.board = state.board
+    this.turn = state.turn
+    this.castling = state.castling
+    this.enPassant = state.enPassant
+    this.halfmoveClock = state.halfmoveClock
+    this.fullmoveNumber = state.fullmoveNumber
+    this.hash = hash ?? zobristHash(state)
+  }
+
+  static initial(): Position {
+    return new Position({
+      board: INITIAL_BOARD,
+      turn: "white",
+      castling: INITIAL_CASTLING_RIGHTS,
+      enPassant: null,
+      halfmoveClock: 0,
+      fullmoveNumber: 1,
+    })
+  }
+
+  pieceAt(square: Square): Piece | null {
+    return getPieceAt(this.board, square.row, square.col)
+  }
+
+  legalMoves(): Move[] {
+    if (!this.moves) this.moves = getAllValidMoves(this)
+    return this.moves
+  }
+
+  legalMovesFrom(square: Square): Move[] {
+    return this.legalMoves().filter((move) => sameSquare(move.from, square))
+  }
+
+  // Promotions default to a queen when no piece is given
+  findMove(from: Square, to: Square, promotion?: PieceType): Move | null {
+    return (
+      this.legalMoves().find(
+        (move) =>
+          sameSquare(move.from, from) &&
+          sameSquare(move.to, to) &&
+          (!move.promotion || move.promotion === (promotion ?? "queen")),
+      ) ?? null
+    )
+  }
+
+  isPromotion(from: Square, to: Square): boolean {
+    return this.legalMoves().some((move) => sameSquare(move.from, from) && sameSquare(move.to, to) && !!move.promotion)
+  }
+
+  // `move` must be one of this position's legal moves
+  play(move: Move): Position {
+    return new Position(playMove(this, move), updateZobristHash(this.hash, this, move))
+  }
+
+  isCheck(): boolean {
+    return isInCheck(this.board, this.turn)
+  }
+
+  isCheckmate(): boolean {
+    return this.isCheck() && this.legalMoves().length === 0
+  }
+
+  isStalemate(): boolean {
+    return !this.isCheck() && this.legalMoves().length === 0
+  }
+
+  // Identifies the position for repetition purposes: same placement, side to move, castling rights
+  // and en passant possibilities. This is the Zobrist hash, except that the en passant square only
+  // counts when a capture there is legal.
+  repetitionKey(): string {
+    if (hasEnPassantKey(this) && !this.legalMoves().some((move) => move.enPassant)) {
+      return zobristKey(zobristHash({ ...this, enPassant: null }))
+    }
+    return zobristKey(this.hash)
+  }
+
+  status(): GameStatus {
+    if (this.legalMoves().length === 0) return this.isCheck() ? "checkmate" : "stalemate"
+    return this.isCheck() ? "check" : "playing"
+  }
+}
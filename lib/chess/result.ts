@@ -0,0 +1,59 @@
+import { opponentOf } from "./board"
+import { hasMatingMaterial } from "./rules"
+import type { Board, DrawClaim, GameStatus, PieceColor } from "./types"
+
+export type GameResult = "1-0" | "0-1" | "1/2-1/2" | "*"
+
+export type Termination =
+  | "checkmate"
+  | "stalemate"
+  | "timeout"
+  | "timeoutVsInsufficientMaterial"
+  | "resignation"
+  | "agreement"
+  | "threefoldRepetition"
+  | "fivefoldRepetition"
+  | "fiftyMove"
+  | "seventyFiveMove"
+  | "insufficientMaterial"
+
+export interface GameOutcome {
+  result: GameResult
+  termination: Termination
+  winner: PieceColor | null
+}
+
+export const winFor = (winner: PieceColor, termination: Termination): GameOutcome => ({
+  result: winner === "white" ? "1-0" : "0-1",
+  termination,
+  winner,
+})
+
+export const drawBy = (termination: Termination): GameOutcome => ({
+  result: "1/2-1/2",
+  termination,
+  winner: null,
+})
+
+// The outcome the board itself decides, or null while the game goes on
+export const outcomeFromStatus = (status: GameStatus, turn: PieceColor): GameOutcome | null => {
+  switch (status) {
+    case "playing":
+    case "check":
+      return null
+    case "checkmate":
+      return winFor(opponentOf(turn), "checkmate")
+    default:
+      return drawBy(status)
+  }
+}
+
+export const outcomeFromClaim = (claim: DrawClaim): GameOutcome => drawBy(claim)
+
+// A flag fall loses, unless the opponent could never mate with what they have left
+export const timeoutOutcome = (board: Board, flagged: PieceColor): GameOutcome => {
+  const opponent = opponentOf(flagged)
+  return hasMatingMaterial(board, opponent) ? winFor(opponent, "timeout") : drawBy("timeoutVsInsufficientMaterial")
+}
+
+export const formatResult = (result: GameResult): string => (result === "1/2-1/2" ? "½-½" : result)
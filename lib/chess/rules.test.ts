@@ -0,0 +1,117 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseSquare, squareName } from "./board"
+import { parseFen, toFen } from "./fen"
+import { Position } from "./position"
+import { isInsufficientMaterial } from "./rules"
+import { parseSan } from "./san"
+import type { PieceType } from "./types"
+
+// Leaf nodes of the legal move tree, the standard check of a move generator
+const perft = (position: Position, depth: number): number => {
+  const moves = position.legalMoves()
+  if (depth === 1) return moves.length
+  return moves.reduce((total, move) => total + perft(position.play(move), depth - 1), 0)
+}
+
+const play = (position: Position, ...moves: string[]): Position =>
+  moves.reduce((current, san) => current.play(parseSan(current, san)), position)
+
+const PROMOTION_LETTERS: Partial<Record<PieceType, string>> = { queen: "q", rook: "r", bishop: "b", knight: "n" }
+
+// Where the piece on `from` can go, with the promotion piece's letter after the square
+const names = (position: Position, from: string): string[] =>
+  position
+    .legalMovesFrom(parseSquare(from)!)
+    .map((move) => squareName(move.to) + (move.promotion ? PROMOTION_LETTERS[move.promotion] : ""))
+    .sort()
+
+// Counts from the Chess Programming Wiki's perft results page
+describe("perft", () => {
+  const cases: [string, string, number[]][] = [
+    ["start position", "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1", [20, 400, 8902]],
+    ["Kiwipete", "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1", [48, 2039]],
+    ["position 3", "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1", [14, 191, 2812]],
+    ["position 4", "r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1", [6, 264]],
+    ["position 5", "rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8", [44, 1486]],
+  ]
+  for (const [name, fen, counts] of cases) {
+    it(name, () => {
+      const position = parseFen(fen)
+      counts.forEach((count, i) => assert.equal(perft(position, i + 1), count, `depth ${i + 1}`))
+    })
+  }
+})
+
+describe("castling", () => {
+  const fen = "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1"
+
+  it("moves the rook along with the king", () => {
+    const position = play(parseFen(fen), "O-O")
+    assert.equal(toFen(position), "r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1")
+  })
+
+  it("loses both rights when the king moves and one when a rook moves or is taken", () => {
+    assert.equal(play(parseFen(fen), "Kd1").castling.white.queenSide, false)
+    assert.equal(play(parseFen(fen), "Kd1").castling.white.kingSide, false)
+    const afterRook = play(parseFen(fen), "Rb1")
+    assert.deepEqual(afterRook.castling.white, { kingSide: true, queenSide: false })
+    const afterCapture = play(parseFen(fen), "Rxh8+")
+    assert.deepEqual(afterCapture.castling.black, { kingSide: false, queenSide: true })
+  })
+
+  it("is not allowed out of, through or into check", () => {
+    const castles = (position: Position) => names(position, "e1").filter((to) => to === "g1" || to === "c1")
+    assert.deepEqual(castles(parseFen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1")), ["c1", "g1"])
+    assert.deepEqual(castles(parseFen("4r1k1/8/8/8/8/8/8/R3K2R w KQ - 0 1")), [])
+    assert.deepEqual(castles(parseFen("5rk1/8/8/8/8/8/8/R3K2R w KQ - 0 1")), ["c1"])
+    assert.deepEqual(castles(parseFen("2r3k1/8/8/8/8/8/8/R3K2R w KQ - 0 1")), ["g1"])
+    // Only the king's own path matters, so a rook passing an attacked b1 may still castle
+    assert.deepEqual(castles(parseFen("1r4k1/8/8/8/8/8/8/R3K2R w KQ - 0 1")), ["c1", "g1"])
+  })
+})
+
+describe("en passant", () => {
+  it("is only possible straight after the double push", () => {
+    const position = play(parseFen("4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1"), "d5")
+    assert.deepEqual(position.enPassant, parseSquare("d6"))
+    assert.ok(names(position, "e5").includes("d6"))
+    assert.equal(play(position, "Ke2", "Ke7").enPassant, null)
+    assert.ok(!names(play(position, "Ke2", "Ke7"), "e5").includes("d6"))
+  })
+
+  it("takes the pawn beside the capturer", () => {
+    const position = play(parseFen("4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1"), "d5", "exd6")
+    assert.equal(toFen(position), "4k3/8/3P4/8/8/8/8/4K3 b - - 0 2")
+  })
+
+  it("is not allowed when it would expose the king along the rank", () => {
+    const position = parseFen("8/8/8/KPp4r/8/8/8/7k w - c6 0 1")
+    assert.ok(!names(position, "b5").includes("c6"))
+  })
+})
+
+describe("promotion", () => {
+  it("offers every promotion piece, on a push or a capture", () => {
+    const position = parseFen("1n2k3/P7/8/8/8/8/8/4K3 w - - 0 1")
+    assert.deepEqual(names(position, "a7"), ["a8b", "a8n", "a8q", "a8r", "b8b", "b8n", "b8q", "b8r"])
+    assert.equal(toFen(play(position, "axb8=N")), "1N2k3/8/8/8/8/8/8/4K3 b - - 0 1")
+  })
+})
+
+describe("isInsufficientMaterial", () => {
+  const board = (placement: string) => parseFen(`${placement} w - - 0 1`).board
+  it("holds for lone kings, a single minor piece or bishops on one colour", () => {
+    assert.ok(isInsufficientMaterial(board("4k3/8/8/8/8/8/8/4K3")))
+    assert.ok(isInsufficientMaterial(board("4k3/8/8/8/8/8/8/4KN2")))
+    assert.ok(isInsufficientMaterial(board("4k3/8/8/8/8/8/8/2B1K3")))
+    assert.ok(isInsufficientMaterial(board("2b1k3/8/8/8/8/8/8/4KB2")))
+  })
+
+  it("does not hold with a pawn, a major piece, two knights or bishops on both colours", () => {
+    assert.ok(!isInsufficientMaterial(board("4k3/8/8/8/8/8/4P3/4K3")))
+    assert.ok(!isInsufficientMaterial(board("4k3/8/8/8/8/8/8/4KR2")))
+    assert.ok(!isInsufficientMaterial(board("4k3/8/8/8/8/8/8/1N2KN2")))
+    assert.ok(!isInsufficientMaterial(board("3bk3/8/8/8/8/8/8/4KB2")))
+  })
+})
@@ -0,0 +1,340 @@
+import {
+  CASTLING_SQUARES,
+  cloneBoard,
+  getPieceAt,
+  homeRow,
+  isValidPosition,
+  opponentOf,
+  PROMOTION_PIECES,
+} from "./board"
+import type { Board, CastlingRights, CastlingSide, Move, Piece, PieceColor, PositionState, Square } from "./types"
+
+export const KNIGHT_OFFSETS = [
+  [-2, -1],
+  [-2, 1],
+  [-1, -2],
+  [-1, 2],
+  [1, -2],
+  [1, 2],
+  [2, -1],
+  [2, 1],
+]
+
+export const KING_OFFSETS = [
+  [-1, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, -1],
+  [0, 1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+]
+
+export const ROOK_DIRECTIONS = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+]
+
+export const BISHOP_DIRECTIONS = [
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+]
+
+export const pawnDirection = (color: PieceColor): number => (color === "white" ? -1 : 1)
+
+export const isPathClear = (board: Board, from: Square, to: Square): boolean => {
+  const rowStep = Math.sign(to.row - from.row)
+  const colStep = Math.sign(to.col - from.col)
+
+  let currentRow = from.row + rowStep
+  let currentCol = from.col + colStep
+
+  while (currentRow !== to.row || currentCol !== to.col) {
+    if (getPieceAt(board, currentRow, currentCol)) return false
+    currentRow += rowStep
+    currentCol += colStep
+  }
+
+  return true
+}
+
+export const findKing = (board: Board, color: PieceColor): Square | null => {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (piece && piece.type === "king" && piece.color === color) {
+        return { row, col }
+      }
+    }
+  }
+  return null
+}
+
+// Whether any piece of `byColor` attacks `square`, whether or not the square is occupied
+export const isSquareAttacked = (board: Board, square: Square, byColor: PieceColor): boolean => {
+  const { row, col } = square
+  const isAttacker = (r: number, c: number, ...types: Piece["type"][]) => {
+    const piece = getPieceAt(board, r, c)
+    return !!piece && piece.color === byColor && types.includes(piece.type)
+  }
+
+  // Pawns attack towards the side they move, so look back against their direction
+  const pawnRow = row - pawnDirection(byColor)
+  if (isAttacker(pawnRow, col - 1, "pawn") || isAttacker(pawnRow, col + 1, "pawn")) return true
+
+  if (KNIGHT_OFFSETS.some(([dr, dc]) => isAttacker(row + dr, col + dc, "knight"))) return true
+  if (KING_OFFSETS.some(([dr, dc]) => isAttacker(row + dr, col + dc, "king"))) return true
+
+  const rayHits = (directions: number[][], ...types: Piece["type"][]) =>
+    directions.some(([dr, dc]) => {
+      let r = row + dr
+      let c = col + dc
+      while (isValidPosition(r, c)) {
+        const piece = board[r][c]
+        if (piece) return piece.color === byColor && types.includes(piece.type)
+        r += dr
+        c += dc
+      }
+      return false
+    })
+
+  return rayHits(ROOK_DIRECTIONS, "rook", "queen") || rayHits(BISHOP_DIRECTIONS, "bishop", "queen")
+}
+
+export const isInCheck = (board: Board, color: PieceColor): boolean => {
+  const kingPos = findKing(board, color)
+  if (!kingPos) return false
+  return isSquareAttacked(board, kingPos, opponentOf(color))
+}
+
+// Returns a new board with the move played; the input board is left untouched
+export const applyMove = (board: Board, move: Move): Board => {
+  const newBoard = cloneBoard(board)
+  newBoard[move.to.row][move.to.col] = move.promotion ? { type: move.promotion, color: move.piece.color } : move.piece
+  newBoard[move.from.row][move.from.col] = null
+
+  // The captured pawn sits beside the capturing pawn, not on the square it moves to
+  if (move.enPassant) {
+    newBoard[move.from.row][move.to.col] = null
+  }
+
+  if (move.castle) {
+    const { rookFrom, rookTo } = CASTLING_SQUARES[move.castle]
+    newBoard[move.from.row][rookTo] = newBoard[move.from.row][rookFrom]
+    newBoard[move.from.row][rookFrom] = null
+  }
+
+  return newBoard
+}
+
+// The king may not castle out of, through or into check, and every square between king and rook must be empty
+const getCastlingMoves = (state: PositionState): Move[] => {
+  const { board, turn, castling } = state
+  const row = homeRow(turn)
+  const king = board[row][4]
+  if (!king || king.type !== "king" || king.color !== turn) return []
+
+  const opponent = opponentOf(turn)
+  if (isSquareAttacked(board, { row, col: 4 }, opponent)) return []
+
+  const moves: Move[] = []
+  for (const side of ["kingSide", "queenSide"] as CastlingSide[]) {
+    if (!castling[turn][side]) continue
+
+    const { rookFrom, kingTo } = CASTLING_SQUARES[side]
+    const rook = board[row][rookFrom]
+    if (!rook || rook.type !== "rook" || rook.color !== turn) continue
+
+    const step = Math.sign(rookFrom - 4)
+    let blocked = false
+    for (let col = 4 + step; col !== rookFrom; col += step) {
+      if (board[row][col]) blocked = true
+    }
+    if (blocked) continue
+
+    // The king's own path is the square it crosses and the square it lands on
+    if (isSquareAttacked(board, { row, col: 4 + step }, opponent)) continue
+    if (isSquareAttacked(board, { row, col: kingTo }, opponent)) continue
+
+    moves.push({ from: { row, col: 4 }, to: { row, col: kingTo }, piece: king, castle: side })
+  }
+  return moves
+}
+
+// Moves that follow the piece's movement rules without regard to the mover's own king
+export const getPseudoLegalMoves = (state: PositionState): Move[] => {
+  const { board, turn } = state
+  const moves: Move[] = []
+
+  const addMove = (from: Square, row: number, col: number, piece: Piece) => {
+    const target = board[row][col]
+    moves.push({ from, to: { row, col }, piece, capturedPiece: target || undefined })
+  }
+
+  // A pawn reaching the far rank yields one move per promotion piece
+  const addPawnMove = (from: Square, row: number, col: number, piece: Piece) => {
+    if (row !== homeRow(opponentOf(piece.color))) return addMove(from, row, col, piece)
+    const target = board[row][col]
+    for (const promotion of PROMOTION_PIECES) {
+      moves.push({ from, to: { row, col }, piece, capturedPiece: target || undefined, promotion })
+    }
+  }
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (!piece || piece.color !== turn) continue
+      const from = { row, col }
+
+      switch (piece.type) {
+        case "pawn": {
+          const direction = pawnDirection(piece.color)
+          const startRow = piece.color === "white" ? 6 : 1
+          const oneStep = row + direction
+
+          if (isValidPosition(oneStep, col) && !board[oneStep][col]) {
+            addPawnMove(from, oneStep, col, piece)
+            const twoStep = row + 2 * direction
+            if (row === startRow && !board[twoStep][col]) {
+              addMove(from, twoStep, col, piece)
+            }
+          }
+
+          for (const dc of [-1, 1]) {
+            const target = getPieceAt(board, oneStep, col + dc)
+            if (target && target.color !== piece.color) {
+              addPawnMove(from, oneStep, col + dc, piece)
+            } else if (state.enPassant && state.enPassant.row === oneStep && state.enPassant.col === col + dc) {
+              moves.push({
+                from,
+                to: { row: oneStep, col: col + dc },
+                piece,
+                capturedPiece: board[row][col + dc] || undefined,
+                enPassant: true,
+              })
+            }
+          }
+          break
+        }
+
+        case "knight":
+        case "king": {
+          const offsets = piece.type === "knight" ? KNIGHT_OFFSETS : KING_OFFSETS
+          for (const [dr, dc] of offsets) {
+            const r = row + dr
+            const c = col + dc
+            if (!isValidPosition(r, c)) continue
+            const target = board[r][c]
+            if (!target || target.color !== piece.color) addMove(from, r, c, piece)
+          }
+          break
+        }
+
+        default: {
+          const directions =
+            piece.type === "rook"
+              ? ROOK_DIRECTIONS
+              : piece.type === "bishop"
+                ? BISHOP_DIRECTIONS
+                : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]
+          for (const [dr, dc] of directions) {
+            let r = row + dr
+            let c = col + dc
+            while (isValidPosition(r, c)) {
+              const target = board[r][c]
+              if (target && target.color === piece.color) break
+              addMove(from, r, c, piece)
+              if (target) break
+              r += dr
+              c += dc
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return [...moves, ...getCastlingMoves(state)]
+}
+
+export const getAllValidMoves = (state: PositionState): Move[] => {
+  return getPseudoLegalMoves(state).filter((move) => !isInCheck(applyMove(state.board, move), state.turn))
+}
+
+export const isCheckmate = (state: PositionState): boolean => {
+  return isInCheck(state.board, state.turn) && getAllValidMoves(state).length === 0
+}
+
+export const isStalemate = (state: PositionState): boolean => {
+  return !isInCheck(state.board, state.turn) && getAllValidMoves(state).length === 0
+}
+
+// Rights are lost for good when the king moves, or when a rook leaves or is captured on its starting corner
+export const updateCastlingRights = (castling: CastlingRights, move: Move): CastlingRights => {
+  const rights: CastlingRights = { white: { ...castling.white }, black: { ...castling.black } }
+
+  if (move.piece.type === "king") {
+    rights[move.piece.color] = { kingSide: false, queenSide: false }
+  }
+
+  for (const color of ["white", "black"] as PieceColor[]) {
+    for (const side of ["kingSide", "queenSide"] as CastlingSide[]) {
+      const corner = { row: homeRow(color), col: CASTLING_SQUARES[side].rookFrom }
+      const touchesCorner = [move.from, move.to].some((sq) => sq.row === corner.row && sq.col === corner.col)
+      if (touchesCorner) rights[color][side] = false
+    }
+  }
+
+  return rights
+}
+
+// The position after `move`, with the other side to play
+export const playMove = (state: PositionState, move: Move): PositionState => {
+  return {
+    board: applyMove(state.board, move),
+    turn: opponentOf(state.turn),
+    castling: updateCastlingRights(state.castling, move),
+    enPassant:
+      move.piece.type === "pawn" && Math.abs(move.to.row - move.from.row) === 2
+        ? { row: (move.from.row + move.to.row) / 2, col: move.from.col }
+        : null,
+    halfmoveClock: move.piece.type === "pawn" || move.capturedPiece ? 0 : state.halfmoveClock + 1,
+    fullmoveNumber: state.turn === "black" ? state.fullmoveNumber + 1 : state.fullmoveNumber,
+  }
+}
+
+// Whether `color` still has anything beyond a lone king or a single minor piece to mate with
+export const hasMatingMaterial = (board: Board, color: PieceColor): boolean => {
+  let minors = 0
+  for (const row of board) {
+    for (const piece of row) {
+      if (!piece || piece.color !== color || piece.type === "king") continue
+      if (piece.type !== "bishop" && piece.type !== "knight") return true
+      minors++
+    }
+  }
+  return minors > 1
+}
+
+// Dead positions where neither side can ever deliver mate: lone kings, a single minor piece,
+// or any number of bishops that all stand on squares of one colour
+export const isInsufficientMaterial = (board: Board): boolean => {
+  const minors: { type: Piece["type"]; squareColor: number }[] = []
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (!piece || piece.type === "king") continue
+      if (piece.type !== "bishop" && piece.type !== "knight") return false
+      minors.push({ type: piece.type, squareColor: (row + col) % 2 })
+    }
+  }
+
+  if (minors.length <= 1) return true
+  return minors.every((minor) => minor.type === "bishop" && minor.squareColor === minors[0].squareColor)
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseSquare } from "./board"
+import { parseFen } from "./fen"
+import { parseSan, SanError } from "./san"
+
+describe("parseSan", () => {
+  it("accepts promotion pieces in either case, with or without =", () => {
+    const position = parseFen("1n2k3/P7/8/8/8/8/8/4K3 w - - 0 1")
+    for (const text of ["a8=Q", "a8q", "a8=q", "axb8=N", "axb8n", "axb8N"]) {
+      const move = parseSan(position, text)
+      assert.equal(move.promotion, text.toLowerCase().endsWith("n") ? "knight" : "queen", text)
+    }
+  })
+
+  it("names the piece that cannot reach the square", () => {
+    const position = parseFen("4k3/8/8/8/8/8/8/4K3 w - - 0 1")
+    assert.throws(() => parseSan(position, "Ke3"), new SanError('Illegal move "Ke3": no king can reach e3'))
+    assert.throws(() => parseSan(position, "e4"), new SanError('Illegal move "e4": no pawn can reach e4'))
+  })
+
+  it("disambiguates by file, rank or both", () => {
+    const knights = parseFen("4k3/8/8/8/8/2N3N1/8/2N1K3 w - - 0 1")
+    assert.throws(() => parseSan(knights, "Ne2"), new SanError('Ambiguous move "Ne2": could be Nc3e2, Nge2, N1e2'))
+    assert.deepEqual(parseSan(knights, "Nge2").from, parseSquare("g3"))
+    assert.deepEqual(parseSan(knights, "N1e2").from, parseSquare("c1"))
+    assert.deepEqual(parseSan(knights, "Nc3e2").from, parseSquare("c3"))
+    assert.equal(parseSan(knights, "Nge2").notation, "Nge2")
+    assert.equal(parseSan(knights, "N1e2").notation, "N1e2")
+    assert.equal(parseSan(knights, "Nc3e2").notation, "Nc3e2")
+  })
+
+  it("asks for the promotion piece when it is left out", () => {
+    const position = parseFen("4k3/P7/8/8/8/8/8/4K3 w - - 0 1")
+    assert.throws(() => parseSan(position, "a8"), new SanError("a8 needs a promotion piece, e.g. a8=Q"))
+    assert.equal(parseSan(position, "a8=R").notation, "a8=R+")
+  })
+
+  it("reads castling, long algebraic input and stray annotations", () => {
+    const position = parseFen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1")
+    assert.equal(parseSan(position, "0-0-0").castle, "queenSide")
+    assert.equal(parseSan(position, "O-O!?").castle, "kingSide")
+    assert.deepEqual(parseSan(position, "Ra1-a7").to, parseSquare("a7"))
+    assert.throws(() => parseSan(position, "Qd4"), new SanError('Illegal move "Qd4": no queen can reach d4'))
+  })
+})
@@ -0,0 +1,96 @@
+import { parseSquare, sameSquare } from "./board"
+import { moveToAlgebraicNotation } from "./notation"
+import type { Position } from "./position"
+import type { Move, PieceType } from "./types"
+
+export class SanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SanError"
+  }
+}
+
+const PIECE_FROM_LETTER: Record<string, PieceType> = {
+  K: "king",
+  Q: "queen",
+  R: "rook",
+  B: "bishop",
+  N: "knight",
+}
+
+const withNotation = (position: Position, move: Move): Move => ({
+  ...move,
+  notation: moveToAlgebraicNotation(position, move),
+})
+
+// Parses a move in standard algebraic notation against the legal moves of `position`.
+// Also accepts 0-0 castling, "e.p." suffixes, missing or extra check marks and annotations,
+// promotions without "=", and long algebraic input such as "e2e4", "Ng1-f3" or "e7e8q".
+export const parseSan = (position: Position, text: string): Move => {
+  const san = text
+    .trim()
+    .replace(/\s*e\.?p\.?$/i, "")
+    .replace(/[+#!?]+$/, "")
+  if (!san) throw new SanError("Empty move")
+
+  const legalMoves = position.legalMoves()
+
+  const castling = /^([O0])-\1(-\1)?$/.exec(san)
+  if (castling) {
+    const side = castling[2] ? "queenSide" : "kingSide"
+    const move = legalMoves.find((candidate) => candidate.castle === side)
+    if (!move) throw new SanError(`Castling ${side === "kingSide" ? "kingside" : "queenside"} is not legal here`)
+    return withNotation(position, move)
+  }
+
+  const long = /^([KQRBN])?([a-h][1-8])[-x:]?([a-h][1-8])=?([QRBNqrbn])?$/.exec(san)
+  if (long) {
+    const [, letter, fromName, toName, promotionLetter] = long
+    const from = parseSquare(fromName)!
+    const to = parseSquare(toName)!
+    const piece = position.pieceAt(from)
+    if (!piece || piece.color !== position.turn) throw new SanError(`No ${position.turn} piece on ${fromName}`)
+    if (letter && PIECE_FROM_LETTER[letter] !== piece.type) {
+      throw new SanError(`The piece on ${fromName} is not a ${PIECE_FROM_LETTER[letter]}`)
+    }
+
+    const candidates = legalMoves.filter((move) => sameSquare(move.from, from) && sameSquare(move.to, to))
+    const promotion = promotionLetter ? PIECE_FROM_LETTER[promotionLetter.toUpperCase()] : undefined
+    const move = candidates.find((candidate) => candidate.promotion === promotion)
+    if (!move) {
+      if (candidates.length > 0 && !promotion) throw new SanError(`${san} needs a promotion piece, e.g. ${san}=Q`)
+      throw new SanError(`Illegal move "${text.trim()}"`)
+    }
+    return withNotation(position, move)
+  }
+
+  const short = /^([KQRBN])?([a-h])?([1-8])?[x:]?([a-h][1-8])(?:=?([QRBNqrbn]))?$/.exec(san)
+  if (!short) throw new SanError(`Could not read "${text.trim()}" as a move`)
+
+  const [, letter, fromFile, fromRank, toName, promotionLetter] = short
+  const type: PieceType = letter ? PIECE_FROM_LETTER[letter] : "pawn"
+  const to = parseSquare(toName)!
+  const promotion = promotionLetter ? PIECE_FROM_LETTER[promotionLetter.toUpperCase()] : undefined
+
+  const candidates = legalMoves.filter(
+    (move) =>
+      move.piece.type === type &&
+      sameSquare(move.to, to) &&
+      (!fromFile || move.from.col === fromFile.charCodeAt(0) - 97) &&
+      (!fromRank || move.from.row === 8 - Number(fromRank)),
+  )
+  const matches = candidates.filter((move) => move.promotion === promotion)
+
+  if (matches.length === 1) return withNotation(position, matches[0])
+  if (matches.length > 1) {
+    const options = matches.map((move) => moveToAlgebraicNotation(position, move)).join(", ")
+    throw new SanError(`Ambiguous move "${text.trim()}": could be ${options}`)
+  }
+  if (candidates.length > 0 && !promotion) {
+    throw new SanError(`${san} needs a promotion piece, e.g. ${san}=Q`)
+  }
+  if (candidates.length > 0) {
+    throw new SanError(`Only a pawn reaching the last rank can promote`)
+  }
+  throw new SanError(`Illegal move "${text.trim()}": no ${type} can reach ${toName}`)
+}
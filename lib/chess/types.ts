@@ -0,0 +1,57 @@
+export type PieceType = "pawn" | "rook" | "knight" | "bishop" | "queen" | "king"
+export type PieceColor = "white" | "black"
+
+export interface Piece {
+  type: PieceType
+  color: PieceColor
+}
+
+// Board coordinates: row 0 is the eighth rank, col 0 is the a-file
+export interface Square {
+  row: number
+  col: number
+}
+
+export type Board = (Piece | null)[][]
+
+export type CastlingSide = "kingSide" | "queenSide"
+
+export type CastlingRights = Record<PieceColor, Record<CastlingSide, boolean>>
+
+export interface Move {
+  from: Square
+  to: Square
+  piece: Piece
+  capturedPiece?: Piece
+  castle?: CastlingSide
+  enPassant?: boolean
+  promotion?: PieceType
+  notation?: string
+}
+
+export type GameStatus =
+  | "playing"
+  | "check"
+  | "checkmate"
+  | "stalemate"
+  | "threefoldRepetition"
+  | "fivefoldRepetition"
+  | "fiftyMove"
+  | "seventyFiveMove"
+  | "insufficientMaterial"
+
+// Draws a player may claim but that do not end the game on their own
+export type DrawClaim = "threefoldRepetition" | "fiftyMove"
+
+// Everything the rules need to know about a position besides the move history
+export interface PositionState {
+  board: Board
+  turn: PieceColor
+  castling: CastlingRights
+  // The square a pawn skipped over on the previous ply, if it just made a double push
+  enPassant: Square | null
+  // Plies since the last capture or pawn move, for the fifty-move rule
+  halfmoveClock: number
+  // Starts at 1 and increases after each black move
+  fullmoveNumber: number
+}
@@ -0,0 +1,182 @@
+import { CASTLING_SQUARES, opponentOf } from "./board"
+import { pawnDirection, updateCastlingRights } from "./rules"
+import type { Board, CastlingSide, Move, Piece, PieceColor, PieceType, PositionState } from "./types"
+
+// A 64-bit Zobrist hash, kept as two unsigned 32-bit halves because bigint arithmetic is far too
+// slow for the engine's search
+export interface ZobristHash {
+  hi: number
+  lo: number
+}
+
+// 781 64-bit keys, each stored as its high then its low half, laid out like Polyglot's: 768 for
+// piece placement, 4 for castling rights, 8 for the en passant file and 1 for white to move
+export type ZobristKeys = Uint32Array
+
+const KEY_COUNT = 781
+
+const PIECE_KINDS: Record<PieceType, number> = { pawn: 0, knight: 1, bishop: 2, rook: 3, queen: 4, king: 5 }
+
+const CASTLING_KEYS: Record<PieceColor, Record<CastlingSide, number>> = {
+  white: { kingSide: 768, queenSide: 769 },
+  black: { kingSide: 770, queenSide: 771 },
+}
+
+const EN_PASSANT_KEY = 772
+const TURN_KEY = 780
+
+// Fixed keys from a seeded generator (mulberry32), so hashes are the same on every run
+const generateKeys = (seed: number): ZobristKeys => {
+  const keys = new Uint32Array(KEY_COUNT * 2)
+  let state = seed
+  for (let i = 0; i < keys.length; i++) {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    keys[i] = (t ^ (t >>> 14)) >>> 0
+  }
+  return keys
+}
+
+export const ZOBRIST_KEYS: ZobristKeys = generateKeys(0x2d5c3a91)
+
+// Ranks count up from white's side, as in Polyglot
+const pieceKey = (piece: Piece, row: number, col: number): number =>
+  64 * (2 * PIECE_KINDS[piece.type] + (piece.color === "white" ? 1 : 0)) + 8 * (7 - row) + col
+
+// The en passant file is only hashed when a pawn of the side to move stands ready to capture there,
+// whether or not the capture would be legal
+export const hasEnPassantKey = (state: PositionState): boolean => {
+  if (!state.enPassant) return false
+  const row = state.enPassant.row - pawnDirection(state.turn)
+  return [state.enPassant.col - 1, state.enPassant.col + 1].some((col) => {
+    const piece = state.board[row]?.[col]
+    return !!piece && piece.type === "pawn" && piece.color === state.turn
+  })
+}
+
+export const zobristHash = (state: PositionState, keys: ZobristKeys = ZOBRIST_KEYS): ZobristHash => {
+  let hi = 0
+  let lo = 0
+  const toggle = (key: number) => {
+    hi ^= keys[2 * key]
+    lo ^= keys[2 * key + 1]
+  }
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col]
+      if (piece) toggle(pieceKey(piece, row, col))
+    }
+  }
+  for (const color of ["white", "black"] as PieceColor[]) {
+    for (const side of ["kingSide", "queenSide"] as CastlingSide[]) {
+      if (state.castling[color][side]) toggle(CASTLING_KEYS[color][side])
+    }
+  }
+  if (hasEnPassantKey(state)) toggle(EN_PASSANT_KEY + state.enPassant!.col)
+  if (state.turn === "white") toggle(TURN_KEY)
+
+  return { hi: hi >>> 0, lo: lo >>> 0 }
+}
+
+// The hash of the position after `move`, worked out from the hash of `state` without rehashing the board
+export const updateZobristHash = (
+  hash: ZobristHash,
+  state: PositionState,
+  move: Move,
+  keys: ZobristKeys = ZOBRIST_KEYS,
+): ZobristHash => {
+  let { hi, lo } = hash
+  const toggle = (key: number) => {
+    hi ^= keys[2 * key]
+    lo ^= keys[2 * key + 1]
+  }
+
+  const { from, to, piece } = move
+  toggle(pieceKey(piece, from.row, from.col))
+  toggle(pieceKey(move.promotion ? { type: move.promotion, color: piece.color } : piece, to.row, to.col))
+  // An en passant capture takes the pawn beside the capturing one, not on the square it moves to
+  if (move.capturedPiece) toggle(pieceKey(move.capturedPiece, move.enPassant ? from.row : to.row, to.col))
+  if (move.castle) {
+    const { rookFrom, rookTo } = CASTLING_SQUARES[move.castle]
+    const rook: Piece = { type: "rook", color: piece.color }
+    toggle(pieceKey(rook, from.row, rookFrom))
+    toggle(pieceKey(rook, from.row, rookTo))
+  }
+
+  const castling = updateCastlingRights(state.castling, move)
+  for (const color of ["white", "black"] as PieceColor[]) {
+    for (const side of ["kingSide", "queenSide"] as CastlingSide[]) {
+      if (castling[color][side] !== state.castling[color][side]) toggle(CASTLING_KEYS[color][side])
+    }
+  }
+
+  if (hasEnPassantKey(state)) toggle(EN_PASSANT_KEY + state.enPassant!.col)
+  if (piece.type === "pawn" && Math.abs(to.row - from.row) === 2) {
+    const opponent = opponentOf(piece.color)
+    const ready = [to.col - 1, to.col + 1].some((col) => {
+      const neighbour = state.board[to.row][col]
+      return !!neighbour && neighbour.type === "pawn" && neighbour.color === opponent
+    })
+    if (ready) toggle(EN_PASSANT_KEY + to.col)
+  }
+
+  toggle(TURN_KEY)
+  return { hi: hi >>> 0, lo: lo >>> 0 }
+}
+
+// The hash of the pawns alone, from the same keys, for caching what depends only on pawn structure
+export const pawnZobristHash = (board: Board, keys: ZobristKeys = ZOBRIST_KEYS): ZobristHash => {
+  let hi = 0
+  let lo = 0
+  for (let row = 1; row < 7; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (piece?.type !== "pawn") continue
+      const key = pieceKey(piece, row, col)
+      hi ^= keys[2 * key]
+      lo ^= keys[2 * key + 1]
+    }
+  }
+  return { hi: hi >>> 0, lo: lo >>> 0 }
+}
+
+// The pawn-only hash after `move`, worked out from the one before it like updateZobristHash
+export const updatePawnZobristHash = (hash: ZobristHash, move: Move, keys: ZobristKeys = ZOBRIST_KEYS): ZobristHash => {
+  let { hi, lo } = hash
+  const toggle = (piece: Piece, row: number, col: number) => {
+    const key = pieceKey(piece, row, col)
+    hi ^= keys[2 * key]
+    lo ^= keys[2 * key + 1]
+  }
+
+  const { from, to, piece } = move
+  if (piece.type === "pawn") {
+    toggle(piece, from.row, from.col)
+    if (!move.promotion) toggle(piece, to.row, to.col)
+  }
+  if (move.capturedPiece?.type === "pawn") toggle(move.capturedPiece, move.enPassant ? from.row : to.row, to.col)
+  return { hi: hi >>> 0, lo: lo >>> 0 }
+}
+
+// The hash after passing the move to the other side without moving, as the engine's null-move
+// pruning does
+export const updateZobristHashForNullMove = (
+  hash: ZobristHash,
+  state: PositionState,
+  keys: ZobristKeys = ZOBRIST_KEYS,
+): ZobristHash => {
+  let { hi, lo } = hash
+  const toggle = (key: number) => {
+    hi ^= keys[2 * key]
+    lo ^= keys[2 * key + 1]
+  }
+  if (hasEnPassantKey(state)) toggle(EN_PASSANT_KEY + state.enPassant!.col)
+  toggle(TURN_KEY)
+  return { hi: hi >>> 0, lo: lo >>> 0 }
+}
+
+// 16 hex digits, for use as a map key
+export const zobristKey = (hash: ZobristHash): string =>
+  hash.hi.toString(16).padStart(8, "0") + hash.lo.toString(16).padStart(8, "0")
@@ -0,0 +1,38 @@
+import { parseFen } from "@/lib/chess"
+import { search, type SearchConfig, type SearchResult } from "./search"
+import { TranspositionTable } from "./transposition"
+
+// Fixed positions for measuring changes to the search: openings, quiet and tactical middlegames,
+// and endgames where zugzwang and long king marches matter
+export const BENCHMARK_POSITIONS = [
+  "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+  "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3",
+  "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+  "r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N1PN2/PP1B1PPP/R2QKB1R w KQ - 0 8",
+  "2rq1rk1/pp1bppbp/3p1np1/4n3/3NP3/1BN1BP2/PPPQ2PP/2KR3R w - - 0 13",
+  "r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10",
+  "6k1/5ppp/8/8/r7/1r6/8/6K1 b - - 0 1",
+  "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+  "8/8/1p6/p1p5/P1P5/1P3k2/8/4K3 w - - 0 1",
+  "8/k7/3p4/p2P1p2/P2P1P2/8/8/K7 w - - 0 1",
+]
+
+export interface BenchmarkResult {
+  nodes: number
+  time: number // milliseconds
+  positions: { fen: string; result: SearchResult }[]
+}
+
+// Searches every benchmark position to `depth` with a fresh transposition table each, so results
+// do not depend on the order the positions run in
+export const runBenchmark = (depth: number, config: Partial<SearchConfig> = {}): BenchmarkResult => {
+  const positions = BENCHMARK_POSITIONS.map((fen) => ({
+    fen,
+    result: search(parseFen(fen), { depth }, { table: new TranspositionTable(), config }),
+  }))
+  return {
+    nodes: positions.reduce((total, { result }) => total + result.nodes, 0),
+    time: positions.reduce((total, { result }) => total + result.time, 0),
+    positions,
+  }
+}
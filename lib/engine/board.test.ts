@@ -0,0 +1,27 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseFen, pawnZobristHash, zobristHash } from "@/lib/chess"
+import { SearchBoard } from "./board"
+
+// Plays every legal move to `depth` plies, checking the hashes kept up to date against ones worked
+// out from scratch on the way down and again once each move is taken back
+const walk = (board: SearchBoard, depth: number) => {
+  assert.deepEqual(board.hash, zobristHash(board))
+  assert.deepEqual(board.pawnHash, pawnZobristHash(board.board))
+  if (depth === 0) return
+  for (const move of board.legalMoves()) {
+    board.play(move)
+    walk(board, depth - 1)
+    board.undo()
+  }
+  assert.deepEqual(board.pawnHash, pawnZobristHash(board.board))
+}
+
+describe("SearchBoard", () => {
+  it("keeps its hashes up to date through captures, en passant, promotions and castling", () => {
+    // Kiwipete, and a position with en passant and promotions on both sides
+    walk(new SearchBoard(parseFen("r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1")), 2)
+    walk(new SearchBoard(parseFen("n1n5/PPPk4/8/8/8/8/4Kppp/5N1N b - - 0 1")), 2)
+    walk(new SearchBoard(parseFen("rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3")), 2)
+  })
+})
@@ -0,0 +1,183 @@
+import {
+  CASTLING_SQUARES,
+  cloneBoard,
+  getPseudoLegalMoves,
+  isInCheck,
+  opponentOf,
+  pawnZobristHash,
+  updateCastlingRights,
+  updatePawnZobristHash,
+  updateZobristHash,
+  updateZobristHashForNullMove,
+  zobristHash,
+  type Board,
+  type CastlingRights,
+  type Move,
+  type PieceColor,
+  type PositionState,
+  type Square,
+  type ZobristHash,
+} from "@/lib/chess"
+
+// What playing a move overwrites, kept so it can be taken back
+interface Undo {
+  move: Move | null // null for a null move
+  castling: CastlingRights
+  enPassant: Square | null
+  halfmoveClock: number
+  hash: ZobristHash
+  pawnHash: ZobristHash
+}
+
+// A mutable position for the search, which plays and takes back moves in place instead of copying
+// the board at every node, and keeps its Zobrist hashes, of the whole position and of the pawns
+// alone, up to date as it goes
+export class SearchBoard implements PositionState {
+  readonly board: Board
+  turn: PieceColor
+  castling: CastlingRights
+  enPassant: Square | null
+  halfmoveClock: number
+  fullmoveNumber: number
+  hash: ZobristHash
+  pawnHash: ZobristHash
+  private readonly undos: Undo[] = []
+  // Hashes of every earlier position, from the game before the search began and then the search's own line
+  private readonly history: ZobristHash[]
+
+  constructor(state: PositionState, history: ZobristHash[] = []) {
+    this.board = cloneBoard(state.board)
+    this.turn = state.turn
+    this.castling = state.castling
+    this.enPassant = state.enPassant
+    this.halfmoveClock = state.halfmoveClock
+    this.fullmoveNumber = state.fullmoveNumber
+    this.hash = zobristHash(state)
+    this.pawnHash = pawnZobristHash(state.board)
+    this.history = [...history]
+  }
+
+  // `move` must be legal, or at least pseudo-legal, in the current position
+  play(move: Move): void {
+    const { board } = this
+    const { from, to, piece } = move
+    this.undos.push({
+      move,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hash: this.hash,
+      pawnHash: this.pawnHash,
+    })
+    this.history.push(this.hash)
+    this.hash = updateZobristHash(this.hash, this, move)
+    this.pawnHash = updatePawnZobristHash(this.pawnHash, move)
+
+    board[to.row][to.col] = move.promotion ? { type: move.promotion, color: piece.color } : piece
+    board[from.row][from.col] = null
+    if (move.enPassant) board[from.row][to.col] = null
+    if (move.castle) {
+      const { rookFrom, rookTo } = CASTLING_SQUARES[move.castle]
+      board[from.row][rookTo] = board[from.row][rookFrom]
+      board[from.row][rookFrom] = null
+    }
+
+    this.castling = updateCastlingRights(this.castling, move)
+    this.enPassant =
+      piece.type === "pawn" && Math.abs(to.row - from.row) === 2
+        ? { row: (from.row + to.row) / 2, col: from.col }
+        : null
+    this.halfmoveClock = piece.type === "pawn" || move.capturedPiece ? 0 : this.halfmoveClock + 1
+    if (this.turn === "black") this.fullmoveNumber++
+    this.turn = opponentOf(this.turn)
+  }
+
+  // Passes the turn without moving, for null-move pruning. Repetitions are not looked for across
+  // a null move, as the positions either side of it could never follow one another in a game.
+  playNull(): void {
+    this.undos.push({
+      move: null,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hash: this.hash,
+      pawnHash: this.pawnHash,
+    })
+    this.history.push(this.hash)
+    this.hash = updateZobristHashForNullMove(this.hash, this)
+    this.enPassant = null
+    this.halfmoveClock = 0
+    if (this.turn === "black") this.fullmoveNumber++
+    this.turn = opponentOf(this.turn)
+  }
+
+  // Takes back the last move played, null moves included
+  undo(): void {
+    const { move, castling, enPassant, halfmoveClock, hash, pawnHash } = this.undos.pop()!
+    const { board } = this
+    this.history.pop()
+
+    if (move) {
+      const { from, to, piece } = move
+
+      board[from.row][from.col] = piece
+      board[to.row][to.col] = move.enPassant ? null : (move.capturedPiece ?? null)
+      if (move.enPassant) board[from.row][to.col] = move.capturedPiece!
+      if (move.castle) {
+        const { rookFrom, rookTo } = CASTLING_SQUARES[move.castle]
+        board[from.row][rookFrom] = board[from.row][rookTo]
+        board[from.row][rookTo] = null
+      }
+    }
+
+    this.turn = opponentOf(this.turn)
+    if (this.turn === "black") this.fullmoveNumber--
+    this.castling = castling
+    this.enPassant = enPassant
+    this.halfmoveClock = halfmoveClock
+    this.hash = hash
+    this.pawnHash = pawnHash
+  }
+
+  pseudoLegalMoves(): Move[] {
+    return getPseudoLegalMoves(this)
+  }
+
+  // Whether the move just played left the mover's own king in check, making it illegal
+  leftKingInCheck(): boolean {
+    return isInCheck(this.board, opponentOf(this.turn))
+  }
+
+  legalMoves(): Move[] {
+    const mover = this.turn
+    return getPseudoLegalMoves(this).filter((move) => {
+      this.play(move)
+      const legal = !isInCheck(this.board, mover)
+      this.undo()
+      return legal
+    })
+  }
+
+  // Whether the side to move has anything besides pawns and its king. Without it zugzwang is
+  // common, and passing the move is no guide to how strong the position is.
+  hasPieces(): boolean {
+    return this.board.some((row) =>
+      row.some((piece) => !!piece && piece.color === this.turn && piece.type !== "pawn" && piece.type !== "king"),
+    )
+  }
+
+  isCheck(): boolean {
+    return isInCheck(this.board, this.turn)
+  }
+
+  // Whether the position has occurred before with the same side to move. Only positions since the
+  // last capture or pawn move can match.
+  isRepetition(): boolean {
+    const { history, hash } = this
+    const earliest = Math.max(0, history.length - this.halfmoveClock)
+    for (let i = history.length - 2; i >= earliest; i -= 2) {
+      if (history[i].hi === hash.hi && history[i].lo === hash.lo) return true
+    }
+    return false
+  }
+}
@@ -0,0 +1,102 @@
+import { CASTLING_SQUARES, polyglotHash, type Move, type PieceType, type Position, type ZobristHash } from "@/lib/chess"
+
+// A move from the book, with how often it should be chosen relative to the others in its position
+export interface BookMove {
+  move: Move
+  weight: number
+}
+
+// Each entry is a 64-bit key, a 16-bit move, a 16-bit weight and 32 bits of learning data, all
+// big-endian and sorted by key
+const ENTRY_BYTES = 16
+
+const PROMOTIONS: (PieceType | undefined)[] = [undefined, "knight", "bishop", "rook", "queen"]
+
+// A Polyglot opening book (.bin), looked up by the Polyglot Zobrist hash of the position
+export class OpeningBook {
+  private readonly view: DataView
+  readonly size: number
+
+  constructor(data: ArrayBuffer) {
+    if (data.byteLength % ENTRY_BYTES !== 0) throw new Error("Not a Polyglot opening book")
+    this.view = new DataView(data)
+    this.size = data.byteLength / ENTRY_BYTES
+  }
+
+  // The position's book moves, heaviest first. Entries that aren't legal here (a hash collision or
+  // a broken book) are left out.
+  moves(position: Position): BookMove[] {
+    const hash = polyglotHash(position)
+    const moves: BookMove[] = []
+    for (let index = this.firstEntry(hash); index < this.size; index++) {
+      const offset = index * ENTRY_BYTES
+      if (!this.keyMatches(offset, hash)) break
+      const move = this.decodeMove(position, this.view.getUint16(offset + 8))
+      const weight = this.view.getUint16(offset + 10)
+      if (move && weight > 0) moves.push({ move, weight })
+    }
+    return moves.sort((a, b) => b.weight - a.weight)
+  }
+
+  // A book move picked at random in proportion to its weight, or null once out of book
+  pickMove(position: Position, random: () => number = Math.random): Move | null {
+    const moves = this.moves(position)
+    const total = moves.reduce((sum, { weight }) => sum + weight, 0)
+    let choice = random() * total
+    for (const { move, weight } of moves) {
+      choice -= weight
+      if (choice < 0) return move
+    }
+    return null
+  }
+
+  // The index of the first entry with this key or a greater one
+  private firstEntry(hash: ZobristHash): number {
+    let low = 0
+    let high = this.size
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      const offset = middle * ENTRY_BYTES
+      const hi = this.view.getUint32(offset)
+      const lo = this.view.getUint32(offset + 4)
+      if (hi < hash.hi || (hi === hash.hi && lo < hash.lo)) low = middle + 1
+      else high = middle
+    }
+    return low
+  }
+
+  private keyMatches(offset: number, hash: ZobristHash): boolean {
+    return this.view.getUint32(offset) === hash.hi && this.view.getUint32(offset + 4) === hash.lo
+  }
+
+  // Squares count ranks up from white's side, so row 0 is rank 1. Castling is written as the king
+  // taking its own rook.
+  private decodeMove(position: Position, encoded: number): Move | null {
+    const to = { row: 7 - ((encoded >> 3) & 7), col: encoded & 7 }
+    const from = { row: 7 - ((encoded >> 9) & 7), col: (encoded >> 6) & 7 }
+    const promotion = PROMOTIONS[(encoded >> 12) & 7]
+
+    const piece = position.pieceAt(from)
+    if (piece?.type === "king" && from.col === 4 && to.row === from.row && (to.col === 0 || to.col === 7)) {
+      to.col = to.col === 7 ? 6 : 2
+    }
+
+    const move = position.findMove(from, to, promotion)
+    // findMove falls back to a queen when no promotion is given, which a book never leaves out
+    if (move?.promotion && !promotion) return null
+    return move
+  }
+}
+
+// The 16-bit form of a move in a book entry, the inverse of OpeningBook's decoding
+export const encodeBookMove = (move: Move): number => {
+  const toCol = move.castle ? CASTLING_SQUARES[move.castle].rookFrom : move.to.col
+  const promotion = move.promotion ? PROMOTIONS.indexOf(move.promotion) : 0
+  return (promotion << 12) | ((7 - move.from.row) << 9) | (move.from.col << 6) | ((7 - move.to.row) << 3) | toCol
+}
+
+export const loadOpeningBook = async (url: string): Promise<OpeningBook> => {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+  return new OpeningBook(await response.arrayBuffer())
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseFen } from "@/lib/chess"
+import { evaluationBreakdown } from "./evaluate"
+import { DEFAULT_PARAMETERS } from "./parameters"
+
+// White's pawn structure score in a pawn ending, where only the endgame weights count
+const pawnStructure = (fen: string): number => {
+  const breakdown = evaluationBreakdown(parseFen(fen))
+  assert.equal(breakdown.phase, 0)
+  return breakdown.terms.pawnStructure.white
+}
+
+describe("pawn structure", () => {
+  it("counts only the front pawn of a doubled pair as passed", () => {
+    const { passedPawn, doubledPawn, isolatedPawn } = DEFAULT_PARAMETERS
+    // Pawns on e5 and e3, both isolated, with e5 passed
+    const doubled = pawnStructure("4k3/8/8/4P3/8/4P3/8/4K3 w - - 0 1")
+    assert.equal(doubled, passedPawn.eg[4] + doubledPawn.eg + 2 * isolatedPawn.eg)
+  })
+
+  it("does not count a pawn with an enemy pawn ahead on its own or a neighbouring file", () => {
+    const { isolatedPawn } = DEFAULT_PARAMETERS
+    assert.equal(pawnStructure("4k3/8/3p4/8/4P3/8/8/4K3 w - - 0 1"), isolatedPawn.eg)
+  })
+})
@@ -0,0 +1,327 @@
+import {
+  BISHOP_DIRECTIONS,
+  isCheckmate,
+  isInCheck,
+  isValidPosition,
+  KING_OFFSETS,
+  KNIGHT_OFFSETS,
+  opponentOf,
+  pawnZobristHash,
+  ROOK_DIRECTIONS,
+  type Board,
+  type PieceColor,
+  type PieceType,
+  type PositionState,
+  type Square,
+  type ZobristHash,
+} from "@/lib/chess"
+import { DEFAULT_PARAMETERS, type EvaluationParameters, type Tapered } from "./parameters"
+import type { PawnHashTable, PawnScores } from "./pawn-hash"
+
+// Scores are in centipawns from black's point of view: positive is good for black, negative for white
+export const MATE_SCORE = 10000
+
+// Rough values for the search's pruning decisions; the evaluation's own are in the parameters
+export const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 20000,
+}
+
+// How much each piece counts towards the game phase, which measures how far the game is from the
+// endgame: MAX_PHASE with the full set (4 minor pieces, 4 rooks and 2 queens) on the board and 0
+// with only pawns and kings. Promotions can push the count past the maximum, so it is capped there.
+const PHASE_WEIGHTS: Record<PieceType, number> = { pawn: 0, knight: 1, bishop: 1, rook: 2, queen: 4, king: 0 }
+export const MAX_PHASE = 24
+
+const COLORS: PieceColor[] = ["white", "black"]
+
+// Rows of each side's pawns, file by file
+type PawnRows = Record<PieceColor, number[][]>
+
+// A knight, bishop, rook or queen, any of which can attack the enemy king
+interface Attacker {
+  square: Square
+  type: PieceType
+  color: PieceColor
+}
+
+// The rank of `row` counted from `color`'s own side, 0 to 7
+const relativeRank = (row: number, color: PieceColor): number => (color === "white" ? 7 - row : row)
+
+// Whether `row` lies further up the board than `than` from `color`'s point of view
+const isAhead = (row: number, than: number, color: PieceColor): boolean => (color === "white" ? row < than : row > than)
+
+// Passed, doubled, isolated and backward pawns. Depends on nothing but the pawns, which is what
+// lets the pawn hash table cache it.
+const evaluatePawns = (pawnRows: PawnRows, parameters: EvaluationParameters): PawnScores => {
+  const scores: PawnScores = { white: { mg: 0, eg: 0 }, black: { mg: 0, eg: 0 } }
+
+  for (const color of COLORS) {
+    const score = scores[color]
+    const own = pawnRows[color]
+    const enemy = pawnRows[opponentOf(color)]
+    const forward = color === "white" ? -1 : 1
+    const add = (term: Tapered<number>) => {
+      score.mg += term.mg
+      score.eg += term.eg
+    }
+
+    for (let col = 0; col < 8; col++) {
+      if (own[col].length > 1) {
+        score.mg += parameters.doubledPawn.mg * (own[col].length - 1)
+        score.eg += parameters.doubledPawn.eg * (own[col].length - 1)
+      }
+      const neighbours = [...(own[col - 1] ?? []), ...(own[col + 1] ?? [])]
+
+      for (const row of own[col]) {
+        const adjacentFiles = [col - 1, col, col + 1].filter((file) => file >= 0 && file < 8)
+        const blocked = adjacentFiles.some((file) => enemy[file].some((enemyRow) => isAhead(enemyRow, row, color)))
+        // Of a doubled pair only the front pawn is passed; the one behind is stopped by its own side
+        const behindOwn = own[col].some((ownRow) => isAhead(ownRow, row, color))
+        if (!blocked && !behindOwn) {
+          const rank = relativeRank(row, color)
+          score.mg += parameters.passedPawn.mg[rank]
+          score.eg += parameters.passedPawn.eg[rank]
+        }
+
+        if (neighbours.length === 0) {
+          add(parameters.isolatedPawn)
+          continue
+        }
+
+        // Backward: every neighbour has gone past it, so none can ever defend it, and an enemy
+        // pawn stops it catching up
+        const supported = neighbours.some((neighbour) => !isAhead(neighbour, row, color))
+        const stopGuarded = [col - 1, col + 1].some((file) => enemy[file]?.includes(row + 2 * forward))
+        if (!supported && stopGuarded) add(parameters.backwardPawn)
+      }
+    }
+  }
+  return scores
+}
+
+// Passes the squares a knight, bishop, rook or queen on `from` attacks to `visit` one at a time,
+// stopping early (and returning true) once `visit` returns true
+const visitAttackedSquares = (
+  board: Board,
+  from: Square,
+  type: PieceType,
+  visit: (row: number, col: number) => boolean,
+): boolean => {
+  if (type === "knight") {
+    return KNIGHT_OFFSETS.some(
+      ([dr, dc]) => isValidPosition(from.row + dr, from.col + dc) && visit(from.row + dr, from.col + dc),
+    )
+  }
+  const directions =
+    type === "rook"
+      ? ROOK_DIRECTIONS
+      : type === "bishop"
+        ? BISHOP_DIRECTIONS
+        : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]
+  return directions.some(([dr, dc]) => {
+    for (let r = from.row + dr, c = from.col + dc; isValidPosition(r, c); r += dr, c += dc) {
+      if (visit(r, c)) return true
+      if (board[r][c]) break
+    }
+    return false
+  })
+}
+
+// Pawn shield and storm on the files around the king, and the enemy pieces bearing down on it
+const evaluateKingSafety = (
+  board: Board,
+  color: PieceColor,
+  king: Square,
+  pawnRows: PawnRows,
+  attackers: Attacker[],
+  parameters: EvaluationParameters,
+): number => {
+  const forward = color === "white" ? -1 : 1
+  const opponent = opponentOf(color)
+  let score = 0
+
+  for (let col = Math.max(0, king.col - 1); col <= Math.min(7, king.col + 1); col++) {
+    parameters.pawnShield.forEach((bonus, i) => {
+      if (pawnRows[color][col].includes(king.row + (i + 1) * forward)) score += bonus
+    })
+
+    const distances = pawnRows[opponent][col]
+      .filter((row) => isAhead(row, king.row, color))
+      .map((row) => Math.abs(row - king.row))
+    const nearest = Math.min(...distances)
+    if (nearest < parameters.pawnStorm.length) score += parameters.pawnStorm[nearest]
+  }
+
+  // The king zone is the king's square and every square around it
+  const inZone = (row: number, col: number) => Math.abs(row - king.row) <= 1 && Math.abs(col - king.col) <= 1
+  let count = 0
+  let weight = 0
+  for (const { square, type, color: attackerColor } of attackers) {
+    if (attackerColor !== opponent) continue
+    if (!visitAttackedSquares(board, square, type, inZone)) continue
+    count++
+    weight += parameters.kingAttackWeights[type]
+  }
+  const scale = parameters.kingAttackScale[Math.min(count, parameters.kingAttackScale.length - 1)]
+  return score - Math.round((weight * scale) / 100)
+}
+
+// The terms the evaluation adds up, as shown in its breakdown
+export const EVALUATION_TERMS = ["material", "placement", "mobility", "pawnStructure", "kingSafety"] as const
+export type EvaluationTerm = (typeof EVALUATION_TERMS)[number]
+
+// What each term is worth to each side, in centipawns with the game phase already applied; positive
+// is good for that side
+export interface EvaluationBreakdown {
+  phase: number
+  terms: Record<EvaluationTerm, Record<PieceColor, number>>
+  score: number // the total from black's point of view, as from evaluate()
+}
+
+type TermScores = Record<EvaluationTerm, Record<PieceColor, Tapered<number>>>
+
+// Both halves of every term for both sides, before the game phase blends them
+const evaluateTerms = (
+  board: Board,
+  parameters: EvaluationParameters,
+  pawnTable?: PawnHashTable,
+  pawnHash?: ZobristHash,
+): { phase: number; terms: TermScores } => {
+  const terms = Object.fromEntries(
+    EVALUATION_TERMS.map((term) => [term, { white: { mg: 0, eg: 0 }, black: { mg: 0, eg: 0 } }]),
+  ) as TermScores
+  const add = (term: EvaluationTerm, color: PieceColor, mg: number, eg: number) => {
+    terms[term][color].mg += mg
+    terms[term][color].eg += eg
+  }
+
+  const bishops: Record<PieceColor, number> = { white: 0, black: 0 }
+  const pawnRows: PawnRows = {
+    white: Array.from({ length: 8 }, () => []),
+    black: Array.from({ length: 8 }, () => []),
+  }
+  const rooks: { color: PieceColor; col: number }[] = []
+  const kings: Partial<Record<PieceColor, Square>> = {}
+  const attackers: Attacker[] = []
+  let phase = 0
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (!piece) continue
+      const { type, color } = piece
+      const value = parameters.pieceValues[type]
+      const table = parameters.pieceSquares[type]
+      const tableRow = color === "white" ? row : 7 - row
+      add("material", color, value.mg, value.eg)
+      add("placement", color, table.mg[tableRow][col], table.eg[tableRow][col])
+      phase += PHASE_WEIGHTS[type]
+
+      if (type === "pawn") pawnRows[color][col].push(row)
+      else if (type === "king") kings[color] = { row, col }
+      else attackers.push({ square: { row, col }, type, color })
+      if (type === "bishop") bishops[color]++
+      else if (type === "rook") rooks.push({ color, col })
+    }
+  }
+
+  for (const color of COLORS) {
+    if (bishops[color] >= 2) add("material", color, parameters.bishopPair.mg, parameters.bishopPair.eg)
+  }
+  for (const { color, col } of rooks) {
+    if (pawnRows[color][col].length) continue
+    const bonus = pawnRows[opponentOf(color)][col].length ? parameters.rookSemiOpenFile : parameters.rookOpenFile
+    add("placement", color, bonus.mg, bonus.eg)
+  }
+
+  // Every square a piece attacks that is empty or holds an enemy piece
+  for (const { square, type, color } of attackers) {
+    let squares = 0
+    visitAttackedSquares(board, square, type, (row, col) => {
+      if (board[row][col]?.color !== color) squares++
+      return false
+    })
+    const weight = parameters.mobility[type]
+    add("mobility", color, weight.mg * squares, weight.eg * squares)
+  }
+
+  const pawnKey = pawnTable && (pawnHash ?? pawnZobristHash(board))
+  let pawnScores = pawnKey && pawnTable.probe(pawnKey)
+  if (!pawnScores) {
+    pawnScores = evaluatePawns(pawnRows, parameters)
+    if (pawnKey) pawnTable.store(pawnKey, pawnScores)
+  }
+  for (const color of COLORS) {
+    add("pawnStructure", color, pawnScores[color].mg, pawnScores[color].eg)
+    const king = kings[color]
+    if (king) add("kingSafety", color, evaluateKingSafety(board, color, king, pawnRows, attackers, parameters), 0)
+  }
+
+  return { phase: Math.min(phase, MAX_PHASE), terms }
+}
+
+// The middlegame and endgame scores mixed in proportion to the game phase
+const blend = ({ mg, eg }: Tapered<number>, phase: number): number =>
+  (mg * phase + eg * (MAX_PHASE - phase)) / MAX_PHASE
+
+// Material, piece placement, mobility, pawn structure and king safety, cheap enough for every node
+// of the search, which finds mates for itself. Each term has a middlegame and an endgame weight,
+// blended by the game phase. Pass a pawn hash table to cache the pawn structure between calls,
+// and the pawn-only hash when it is already known, as the search keeps it up to date.
+export const staticEvaluation = (
+  board: Board,
+  parameters: EvaluationParameters = DEFAULT_PARAMETERS,
+  pawnTable?: PawnHashTable,
+  pawnHash?: ZobristHash,
+): number => {
+  const { phase, terms } = evaluateTerms(board, parameters, pawnTable, pawnHash)
+  const total = { mg: 0, eg: 0 }
+  for (const term of EVALUATION_TERMS) {
+    total.mg += terms[term].black.mg - terms[term].white.mg
+    total.eg += terms[term].black.eg - terms[term].white.eg
+  }
+  return Math.round(blend(total, phase))
+}
+
+// The static evaluation term by term, with evaluate()'s bonus for giving check counted under king
+// safety. Mates are left to evaluate().
+export const evaluationBreakdown = (
+  state: PositionState,
+  parameters: EvaluationParameters = DEFAULT_PARAMETERS,
+): EvaluationBreakdown => {
+  const { phase, terms } = evaluateTerms(state.board, parameters)
+  for (const color of COLORS) {
+    if (!isInCheck(state.board, opponentOf(color))) continue
+    terms.kingSafety[color].mg += parameters.checkBonus
+    terms.kingSafety[color].eg += parameters.checkBonus
+  }
+
+  const blended = Object.fromEntries(
+    EVALUATION_TERMS.map((term) => [
+      term,
+      { white: Math.round(blend(terms[term].white, phase)), black: Math.round(blend(terms[term].black, phase)) },
+    ]),
+  ) as EvaluationBreakdown["terms"]
+  let score = 0
+  for (const term of EVALUATION_TERMS) {
+    score += blend(terms[term].black, phase) - blend(terms[term].white, phase)
+  }
+  return { phase, terms: blended, score: Math.round(score) }
+}
+
+export const evaluate = (state: PositionState, parameters: EvaluationParameters = DEFAULT_PARAMETERS): number => {
+  // Check for checkmate
+  if (isCheckmate({ ...state, turn: "white" })) {
+    return MATE_SCORE // Black wins
+  } else if (isCheckmate({ ...state, turn: "black" })) {
+    return -MATE_SCORE // White wins
+  }
+
+  // Everything else, the bonus for giving check included
+  return evaluationBreakdown(state, parameters).score
+}
@@ -0,0 +1,11 @@
+export * from "./evaluate"
+export * from "./parameters"
+export * from "./search"
+export * from "./time"
+export * from "./protocol"
+export * from "./benchmark"
+export { encodeBookMove, loadOpeningBook, OpeningBook, type BookMove } from "./book"
+export { SearchBoard } from "./board"
+export { MovePicker, OrderingHeuristics, staticExchange } from "./ordering"
+export { PawnHashTable, type PawnScores } from "./pawn-hash"
+export { encodeMove, TranspositionTable, type Bound, type TranspositionEntry } from "./transposition"
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseFen, type Move, type Position, type Square } from "@/lib/chess"
+import { MovePicker, OrderingHeuristics, staticExchange } from "./ordering"
+import { encodeMove } from "./transposition"
+
+const square = (name: string): Square => ({ row: 8 - Number(name[1]), col: name.charCodeAt(0) - 97 })
+
+const findMove = (position: Position, from: string, to: string): Move => {
+  const move = position.findMove(square(from), square(to))
+  assert.ok(move, `${from}${to} is not legal`)
+  return move
+}
+
+const see = (fen: string, from: string, to: string): number => {
+  const position = parseFen(fen)
+  const board = position.board.map((row) => [...row])
+  const value = staticExchange(board, findMove(position, from, to))
+  assert.deepEqual(board, position.board, "the board is put back as it was")
+  return value
+}
+
+const name = (move: Move) =>
+  [move.from, move.to].map(({ row, col }) => String.fromCharCode(97 + col) + (8 - row)).join("")
+
+describe("staticExchange", () => {
+  it("wins an undefended piece outright", () => {
+    assert.equal(see("4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1", "d1", "d5"), 320)
+  })
+
+  it("loses the capturer to a defending pawn", () => {
+    assert.equal(see("4k3/2p5/3p4/8/8/3Q4/8/4K3 w - - 0 1", "d3", "d6"), -800)
+  })
+
+  it("stops once carrying on would lose material", () => {
+    assert.equal(see("1k1r4/1pp4p/p7/4p3/8/P5P1/1PP4P/2K1R3 w - - 0 1", "e1", "e5"), 100)
+    assert.equal(see("1k1r3q/1ppn3p/p4b2/4p3/8/P2N2P1/1PP1R1BP/2K1Q3 w - - 0 1", "d3", "e5"), -220)
+  })
+
+  it("lets sliders behind a capturer join in", () => {
+    assert.equal(see("3r2k1/8/8/3p4/8/8/3R4/3RK3 w - - 0 1", "d2", "d5"), 100)
+    assert.equal(see("3r2k1/8/8/3p4/8/8/3R4/4K3 w - - 0 1", "d2", "d5"), -400)
+  })
+
+  it("counts what a promotion adds", () => {
+    assert.equal(see("4k3/P7/8/8/8/8/8/4K3 w - - 0 1", "a7", "a8"), 800)
+  })
+})
+
+describe("MovePicker", () => {
+  it("hands out the hash move, good captures, killers, quiet moves by history, then bad captures", () => {
+    // Qxe4 wins a knight, Qxd6 loses the queen to the c7 pawn
+    const position = parseFen("4k3/2p5/3p4/8/4n3/3Q4/8/4K2R w - - 0 1")
+    const heuristics = new OrderingHeuristics()
+    heuristics.recordCutoff(findMove(position, "h1", "h4"), 3, 4) // history only, from another ply
+    heuristics.recordCutoff(findMove(position, "e1", "f1"), 0, 1) // second killer
+    heuristics.recordCutoff(findMove(position, "h1", "h7"), 0, 1) // first killer
+    const hashMove = encodeMove(findMove(position, "h1", "h8"))
+
+    const moves = position.legalMoves()
+    const picker = new MovePicker(position.board, moves, hashMove, heuristics, 0)
+    const order: string[] = []
+    for (let move = picker.next(); move; move = picker.next()) order.push(name(move))
+
+    assert.equal(order.length, moves.length)
+    assert.deepEqual(order.slice(0, 5), ["h1h8", "d3e4", "h1h7", "e1f1", "h1h4"])
+    assert.equal(order[order.length - 1], "d3d6")
+  })
+
+  it("keeps only good captures and queen promotions when tactical", () => {
+    const position = parseFen("4k3/2p4P/3p4/8/4n3/3Q4/8/4K3 w - - 0 1")
+    const picker = new MovePicker(position.board, position.legalMoves(), 0, new OrderingHeuristics(), 0, true)
+    const order: string[] = []
+    for (let move = picker.next(); move; move = picker.next()) order.push(name(move) + (move.promotion?.[0] ?? ""))
+    assert.deepEqual(order, ["h7h8q", "d3e4"])
+  })
+})
@@ -0,0 +1,233 @@
+import {
+  BISHOP_DIRECTIONS,
+  getPieceAt,
+  isValidPosition,
+  KING_OFFSETS,
+  KNIGHT_OFFSETS,
+  opponentOf,
+  pawnDirection,
+  ROOK_DIRECTIONS,
+  type Board,
+  type Move,
+  type Piece,
+  type PieceColor,
+  type PieceType,
+  type Square,
+} from "@/lib/chess"
+import { encodeMove } from "./transposition"
+
+// Piece values for ordering captures; the king is worth more than anything it could win
+const ORDER_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 20000,
+}
+
+// Moves are tried in stages: the hash move, captures that do not lose material (most valuable
+// victim first, then least valuable attacker), the killer moves, the other quiet moves by history,
+// and last of all captures that lose material and underpromotions
+const HASH_MOVE = 1_000_000
+const GOOD_CAPTURE = 500_000
+const FIRST_KILLER = 400_000
+const SECOND_KILLER = 390_000
+const BAD_CAPTURE = -500_000
+const UNDERPROMOTION = -600_000
+
+// History scores are halved once any of them passes this, keeping quiet moves below the killers
+const HISTORY_LIMIT = 200_000
+
+const MAX_PLY = 128
+
+// The cheapest piece of `color` attacking `square`, or null. Pieces removed from the board no
+// longer attack, which lets sliders behind them through.
+const leastValuableAttacker = (board: Board, square: Square, color: PieceColor): Square | null => {
+  const { row, col } = square
+  const isAttacker = (r: number, c: number, type: PieceType) => {
+    const piece = getPieceAt(board, r, c)
+    return !!piece && piece.color === color && piece.type === type
+  }
+
+  const pawnRow = row - pawnDirection(color)
+  for (const c of [col - 1, col + 1]) {
+    if (isAttacker(pawnRow, c, "pawn")) return { row: pawnRow, col: c }
+  }
+  for (const [dr, dc] of KNIGHT_OFFSETS) {
+    if (isAttacker(row + dr, col + dc, "knight")) return { row: row + dr, col: col + dc }
+  }
+
+  // The nearest piece along each ray, if it belongs to `color` and moves that way
+  const sliders: { square: Square; piece: Piece }[] = []
+  for (const [directions, types] of [
+    [BISHOP_DIRECTIONS, ["bishop", "queen"]],
+    [ROOK_DIRECTIONS, ["rook", "queen"]],
+  ] as const) {
+    for (const [dr, dc] of directions) {
+      let r = row + dr
+      let c = col + dc
+      while (isValidPosition(r, c) && !board[r][c]) {
+        r += dr
+        c += dc
+      }
+      const piece = getPieceAt(board, r, c)
+      if (piece && piece.color === color && (types as readonly PieceType[]).includes(piece.type)) {
+        sliders.push({ square: { row: r, col: c }, piece })
+      }
+    }
+  }
+  for (const type of ["bishop", "rook", "queen"] as PieceType[]) {
+    const slider = sliders.find(({ piece }) => piece.type === type)
+    if (slider) return slider.square
+  }
+
+  for (const [dr, dc] of KING_OFFSETS) {
+    if (isAttacker(row + dr, col + dc, "king")) return { row: row + dr, col: col + dc }
+  }
+  return null
+}
+
+// Static exchange evaluation: the material `move` wins or loses once both sides have made every
+// capture on its destination that pays for them, cheapest pieces first
+export const staticExchange = (board: Board, move: Move): number => {
+  const { to } = move
+  const gains: number[] = [move.capturedPiece ? ORDER_VALUES[move.capturedPiece.type] : 0]
+  let onSquare = ORDER_VALUES[move.piece.type]
+  if (move.promotion) {
+    gains[0] += ORDER_VALUES[move.promotion] - ORDER_VALUES.pawn
+    onSquare = ORDER_VALUES[move.promotion]
+  }
+
+  // Lift each capturer off the board as it moves, and put everything back at the end
+  const lifted: { square: Square; piece: Piece | null }[] = [
+    { square: move.from, piece: board[move.from.row][move.from.col] },
+  ]
+  board[move.from.row][move.from.col] = null
+
+  let side = opponentOf(move.piece.color)
+  for (let depth = 1; ; depth++) {
+    const attacker = leastValuableAttacker(board, to, side)
+    if (!attacker) break
+    // Neither side can come out ahead by carrying on, so the capture is never made and its gain
+    // is left out of the fold below
+    const gain = onSquare - gains[depth - 1]
+    if (Math.max(-gains[depth - 1], gain) < 0) break
+    gains[depth] = gain
+
+    const piece = board[attacker.row][attacker.col]!
+    onSquare = ORDER_VALUES[piece.type]
+    lifted.push({ square: attacker, piece })
+    board[attacker.row][attacker.col] = null
+    side = opponentOf(side)
+  }
+
+  for (const { square, piece } of lifted) board[square.row][square.col] = piece
+
+  for (let depth = gains.length - 1; depth > 0; depth--) {
+    gains[depth - 1] = -Math.max(-gains[depth - 1], gains[depth])
+  }
+  return gains[0]
+}
+
+export const isQuiet = (move: Move): boolean => !move.capturedPiece && !move.promotion
+
+// Killer moves (quiet moves that caused a cutoff at the same ply elsewhere in the tree) and the
+// history table (how often each quiet move has caused a cutoff, weighted by depth)
+export class OrderingHeuristics {
+  private readonly killers = new Int32Array(MAX_PLY * 2)
+  private readonly history = new Int32Array(2 * 64 * 64)
+
+  private historyIndex(move: Move): number {
+    const color = move.piece.color === "white" ? 0 : 1
+    return color * 4096 + (move.from.row * 8 + move.from.col) * 64 + move.to.row * 8 + move.to.col
+  }
+
+  killer(ply: number, slot: 0 | 1): number {
+    return ply < MAX_PLY ? this.killers[ply * 2 + slot] : 0
+  }
+
+  historyScore(move: Move): number {
+    return this.history[this.historyIndex(move)]
+  }
+
+  // Remembers a quiet move that failed high
+  recordCutoff(move: Move, ply: number, depth: number): void {
+    if (!isQuiet(move)) return
+
+    const code = encodeMove(move)
+    if (ply < MAX_PLY && this.killers[ply * 2] !== code) {
+      this.killers[ply * 2 + 1] = this.killers[ply * 2]
+      this.killers[ply * 2] = code
+    }
+
+    const index = this.historyIndex(move)
+    this.history[index] += depth * depth
+    if (this.history[index] > HISTORY_LIMIT) {
+      for (let i = 0; i < this.history.length; i++) this.history[i] >>= 1
+    }
+  }
+}
+
+// Hands out a node's moves best first, picking each one as it is asked for so that a cutoff early
+// on saves sorting the rest. With `tacticalOnly` it hands out just the captures that do not lose
+// material and the queen promotions, for the quiescence search.
+export class MovePicker {
+  private readonly moves: Move[]
+  private readonly scores: number[]
+  private index = 0
+
+  constructor(
+    board: Board,
+    moves: Move[],
+    hashMove: number,
+    heuristics: OrderingHeuristics,
+    ply: number,
+    tacticalOnly = false,
+  ) {
+    this.moves = tacticalOnly ? moves.filter((move) => !isQuiet(move)) : moves
+    const firstKiller = heuristics.killer(ply, 0)
+    const secondKiller = heuristics.killer(ply, 1)
+
+    this.scores = this.moves.map((move) => {
+      const code = encodeMove(move)
+      if (code === hashMove) return HASH_MOVE
+      if (move.promotion && move.promotion !== "queen") return UNDERPROMOTION
+      if (!isQuiet(move)) {
+        // Most valuable victim (counting what a promotion adds), then least valuable attacker
+        const victim =
+          (move.capturedPiece ? ORDER_VALUES[move.capturedPiece.type] : 0) +
+          (move.promotion ? ORDER_VALUES[move.promotion] - ORDER_VALUES.pawn : 0)
+        const mvvLva = 10 * victim - ORDER_VALUES[move.piece.type]
+        return (staticExchange(board, move) >= 0 ? GOOD_CAPTURE : BAD_CAPTURE) + mvvLva
+      }
+      if (code === firstKiller) return FIRST_KILLER
+      if (code === secondKiller) return SECOND_KILLER
+      return heuristics.historyScore(move)
+    })
+
+    // Nothing but the hash move and good captures scores above the killers
+    if (tacticalOnly) {
+      const kept = this.scores.map((score, i) => (score > FIRST_KILLER ? i : -1)).filter((i) => i >= 0)
+      this.moves = kept.map((i) => this.moves[i])
+      this.scores = kept.map((i) => this.scores[i])
+    }
+  }
+
+  next(): Move | null {
+    if (this.index >= this.moves.length) return null
+
+    let best = this.index
+    for (let i = this.index + 1; i < this.moves.length; i++) {
+      if (this.scores[i] > this.scores[best]) best = i
+    }
+    const move = this.moves[best]
+    const score = this.scores[best]
+    this.moves[best] = this.moves[this.index]
+    this.scores[best] = this.scores[this.index]
+    this.moves[this.index] = move
+    this.scores[this.index] = score
+    this.index++
+    return move
+  }
+}
@@ -0,0 +1,254 @@
+import type { PieceType } from "@/lib/chess"
+
+// A weight with one value for the middlegame and one for the endgame; the evaluation blends the two
+// by how much material is left (see PHASE_WEIGHTS in evaluate.ts)
+export interface Tapered<T> {
+  mg: T
+  eg: T
+}
+
+// Bonuses by square, 8 rows of 8 from white's side of the board (the first row is rank 8); black
+// pieces read them upside down
+export type PieceSquareTable = number[][]
+
+// Every weight the evaluation uses, in centipawns. Kept apart from the code so that another set,
+// such as one fitted by a tuner, can be swapped in.
+export interface EvaluationParameters {
+  pieceValues: Record<PieceType, Tapered<number>>
+  pieceSquares: Record<PieceType, Tapered<PieceSquareTable>>
+  bishopPair: Tapered<number>
+  rookOpenFile: Tapered<number> // no pawns at all on the rook's file
+  rookSemiOpenFile: Tapered<number> // only the opponent's pawns on the rook's file
+  mobility: Record<PieceType, Tapered<number>> // for each square a piece attacks that is not its own side's
+
+  // Pawn structure. Ranks count from the pawn's own side, so index 6 is a pawn about to promote.
+  passedPawn: Tapered<number[]> // by rank
+  doubledPawn: Tapered<number> // for each pawn beyond the first on a file
+  isolatedPawn: Tapered<number> // no pawns of its own on the files either side
+  backwardPawn: Tapered<number> // behind its neighbours, with an enemy pawn guarding the square in front
+
+  // King safety, for the middlegame only. The shield and storm look at the king's file and the
+  // files either side.
+  pawnShield: number[] // for a pawn of its own one, then two ranks in front of the king
+  pawnStorm: number[] // for the nearest enemy pawn on each file, by how many ranks it is from the king
+  kingAttackWeights: Record<PieceType, number> // for each piece attacking the king or a square beside it
+  kingAttackScale: number[] // percentage of the summed weights that counts, by the number of attackers
+  checkBonus: number // for the side giving check, in evaluate() only; the search sees checks for itself
+}
+
+// The piece values and tables start from PeSTO's (Ronald Friederich's tuned piece-square-only
+// evaluation); the other terms were picked by hand
+export const DEFAULT_PARAMETERS: EvaluationParameters = {
+  pieceValues: {
+    pawn: { mg: 82, eg: 94 },
+    knight: { mg: 337, eg: 281 },
+    bishop: { mg: 365, eg: 297 },
+    rook: { mg: 477, eg: 512 },
+    queen: { mg: 1025, eg: 936 },
+    king: { mg: 0, eg: 0 },
+  },
+  pieceSquares: {
+    pawn: {
+      mg: [
+        [0, 0, 0, 0, 0, 0, 0, 0],
+        [98, 134, 61, 95, 68, 126, 34, -11],
+        [-6, 7, 26, 31, 65, 56, 25, -20],
+        [-14, 13, 6, 21, 23, 12, 17, -23],
+        [-27, -2, -5, 12, 17, 6, 10, -25],
+        [-26, -4, -4, -10, 3, 3, 33, -12],
+        [-35, -1, -20, -23, -15, 24, 38, -22],
+        [0, 0, 0, 0, 0, 0, 0, 0],
+      ],
+      eg: [
+        [0, 0, 0, 0, 0, 0, 0, 0],
+        [178, 173, 158, 134, 147, 132, 165, 187],
+        [94, 100, 85, 67, 56, 53, 82, 84],
+        [32, 24, 13, 5, -2, 4, 17, 17],
+        [13, 9, -3, -7, -7, -8, 3, -1],
+        [4, 7, -6, 1, 0, -5, -1, -8],
+        [13, 8, 8, 10, 13, 0, 2, -7],
+        [0, 0, 0, 0, 0, 0, 0, 0],
+      ],
+    },
+    knight: {
+      mg: [
+        [-167, -89, -34, -49, 61, -97, -15, -107],
+        [-73, -41, 72, 36, 23, 62, 7, -17],
+        [-47, 60, 37, 65, 84, 129, 73, 44],
+        [-9, 17, 19, 53, 37, 69, 18, 22],
+        [-13, 4, 16, 13, 28, 19, 21, -8],
+        [-23, -9, 12, 10, 19, 17, 25, -16],
+        [-29, -53, -12, -3, -1, 18, -14, -19],
+        [-105, -21, -58, -33, -17, -28, -19, -23],
+      ],
+      eg: [
+        [-58, -38, -13, -28, -31, -27, -63, -99],
+        [-25, -8, -25, -2, -9, -25, -24, -52],
+        [-24, -20, 10, 9, -1, -9, -19, -41],
+        [-17, 3, 22, 22, 22, 11, 8, -18],
+        [-18, -6, 16, 25, 16, 17, 4, -18],
+        [-23, -3, -1, 15, 10, -3, -20, -22],
+        [-42, -20, -10, -5, -2, -20, -23, -44],
+        [-29, -51, -23, -15, -22, -18, -50, -64],
+      ],
+    },
+    bishop: {
+      mg: [
+        [-29, 4, -82, -37, -25, -42, 7, -8],
+        [-26, 16, -18, -13, 30, 59, 18, -47],
+        [-16, 37, 43, 40, 35, 50, 37, -2],
+        [-4, 5, 19, 50, 37, 37, 7, -2],
+        [-6, 13, 13, 26, 34, 12, 10, 4],
+        [0, 15, 15, 15, 14, 27, 18, 10],
+        [4, 15, 16, 0, 7, 21, 33, 1],
+        [-33, -3, -14, -21, -13, -12, -39, -21],
+      ],
+      eg: [
+        [-14, -21, -11, -8, -7, -9, -17, -24],
+        [-8, -4, 7, -12, -3, -13, -4, -14],
+        [2, -8, 0, -1, -2, 6, 0, 4],
+        [-3, 9, 12, 9, 14, 10, 3, 2],
+        [-6, 3, 13, 19, 7, 10, -3, -9],
+        [-12, -3, 8, 10, 13, 3, -7, -15],
+        [-14, -18, -7, -1, 4, -9, -15, -27],
+        [-23, -9, -23, -5, -9, -16, -5, -17],
+      ],
+    },
+    rook: {
+      mg: [
+        [32, 42, 32, 51, 63, 9, 31, 43],
+        [27, 32, 58, 62, 80, 67, 26, 44],
+        [-5, 19, 26, 36, 17, 45, 61, 16],
+        [-24, -11, 7, 26, 24, 35, -8, -20],
+        [-36, -26, -12, -1, 9, -7, 6, -23],
+        [-45, -25, -16, -17, 3, 0, -5, -33],
+        [-44, -16, -20, -9, -1, 11, -6, -71],
+        [-19, -13, 1, 17, 16, 7, -37, -26],
+      ],
+      eg: [
+        [13, 10, 18, 15, 12, 12, 8, 5],
+        [11, 13, 13, 11, -3, 3, 8, 3],
+        [7, 7, 7, 5, 4, -3, -5, -3],
+        [4, 3, 13, 1, 2, 1, -1, 2],
+        [3, 5, 8, 4, -5, -6, -8, -11],
+        [-4, 0, -5, -1, -7, -12, -8, -16],
+        [-6, -6, 0, 2, -9, -9, -11, -3],
+        [-9, 2, 3, -1, -5, -13, 4, -20],
+      ],
+    },
+    queen: {
+      mg: [
+        [-28, 0, 29, 12, 59, 44, 43, 45],
+        [-24, -39, -5, 1, -16, 57, 28, 54],
+        [-13, -17, 7, 8, 29, 56, 47, 57],
+        [-27, -27, -16, -16, -1, 17, -2, 1],
+        [-9, -26, -9, -10, -2, -4, 3, -3],
+        [-14, 2, -11, -2, -5, 2, 14, 5],
+        [-35, -8, 11, 2, 8, 15, -3, 1],
+        [-1, -18, -9, 10, -15, -25, -31, -50],
+      ],
+      eg: [
+        [-9, 22, 22, 27, 27, 19, 10, 20],
+        [-17, 20, 32, 41, 58, 25, 30, 0],
+        [-20, 6, 9, 49, 47, 35, 19, 9],
+        [3, 22, 24, 45, 57, 40, 57, 36],
+        [-18, 28, 19, 47, 31, 34, 39, 23],
+        [-16, -27, 15, 6, 9, 17, 10, 5],
+        [-22, -23, -30, -16, -16, -23, -36, -32],
+        [-33, -28, -22, -43, -5, -32, -20, -41],
+      ],
+    },
+    king: {
+      mg: [
+        [-65, 23, 16, -15, -56, -34, 2, 13],
+        [29, -1, -20, -7, -8, -4, -38, -29],
+        [-9, 24, 2, -16, -20, 6, 22, -22],
+        [-17, -20, -12, -27, -30, -25, -14, -36],
+        [-49, -1, -27, -39, -46, -44, -33, -51],
+        [-14, -14, -22, -46, -44, -30, -15, -27],
+        [1, 7, -8, -64, -43, -16, 9, 8],
+        [-15, 36, 12, -54, 8, -28, 24, 14],
+      ],
+      eg: [
+        [-74, -35, -18, -18, -11, 15, 4, -17],
+        [-12, 17, 14, 17, 17, 38, 23, 11],
+        [10, 17, 23, 15, 20, 45, 44, 13],
+        [-8, 22, 24, 27, 26, 33, 26, 3],
+        [-18, -4, 21, 24, 27, 23, 9, -11],
+        [-19, -3, 11, 21, 23, 16, 7, -9],
+        [-27, -11, 4, 13, 14, 4, -5, -17],
+        [-53, -34, -21, -11, -28, -14, -24, -43],
+      ],
+    },
+  },
+  bishopPair: { mg: 30, eg: 50 },
+  rookOpenFile: { mg: 40, eg: 20 },
+  rookSemiOpenFile: { mg: 20, eg: 10 },
+  mobility: {
+    pawn: { mg: 0, eg: 0 },
+    knight: { mg: 4, eg: 4 },
+    bishop: { mg: 5, eg: 5 },
+    rook: { mg: 2, eg: 4 },
+    queen: { mg: 1, eg: 2 },
+    king: { mg: 0, eg: 0 },
+  },
+  passedPawn: {
+    mg: [0, 5, 10, 15, 25, 40, 60, 0],
+    eg: [0, 10, 20, 35, 60, 100, 150, 0],
+  },
+  doubledPawn: { mg: -10, eg: -20 },
+  isolatedPawn: { mg: -10, eg: -15 },
+  backwardPawn: { mg: -8, eg: -10 },
+  pawnShield: [15, 8],
+  pawnStorm: [0, -10, -30, -15, -5],
+  kingAttackWeights: { pawn: 0, knight: 20, bishop: 20, rook: 40, queen: 80, king: 0 },
+  kingAttackScale: [0, 0, 50, 75, 88, 94, 97, 99],
+  checkBonus: 50,
+}
+
+const flatten = (value: unknown): number[] =>
+  typeof value === "number" ? [value] : Object.values(value as object).flatMap(flatten)
+
+// Every weight in a parameter set as one list, always in the same order, for the tuner
+export const flattenParameters = (parameters: EvaluationParameters): number[] => flatten(parameters)
+
+// A parameter set shaped like `template` holding `weights`, in the order flattenParameters lists them
+export const unflattenParameters = (
+  weights: number[],
+  template: EvaluationParameters = DEFAULT_PARAMETERS,
+): EvaluationParameters => {
+  const expected = flatten(template).length
+  if (weights.length !== expected) throw new Error(`Expected ${expected} weights, got ${weights.length}`)
+
+  let index = 0
+  const rebuild = (value: unknown): unknown => {
+    if (typeof value === "number") return weights[index++]
+    if (Array.isArray(value)) return value.map(rebuild)
+    return Object.fromEntries(Object.entries(value as object).map(([key, entry]) => [key, rebuild(entry)]))
+  }
+  return rebuild(template) as EvaluationParameters
+}
+
+// Reads back a parameter set saved as JSON, such as one written by scripts/texel-tune.ts. It must
+// have every weight DEFAULT_PARAMETERS has, in the same shape.
+export const parseParameters = (json: string): EvaluationParameters => {
+  const check = (expected: unknown, actual: unknown, path: string) => {
+    if (typeof expected === "number") {
+      if (typeof actual !== "number" || !Number.isFinite(actual)) throw new Error(`${path} must be a number`)
+    } else if (Array.isArray(expected)) {
+      if (!Array.isArray(actual) || actual.length !== expected.length) {
+        throw new Error(`${path} must be a list of ${expected.length}`)
+      }
+      expected.forEach((entry, i) => check(entry, actual[i], `${path}[${i}]`))
+    } else {
+      if (typeof actual !== "object" || actual === null) throw new Error(`${path} must be an object`)
+      for (const [key, entry] of Object.entries(expected as object)) {
+        check(entry, (actual as Record<string, unknown>)[key], `${path}.${key}`)
+      }
+    }
+  }
+
+  const parameters: unknown = JSON.parse(json)
+  check(DEFAULT_PARAMETERS, parameters, "parameters")
+  return parameters as EvaluationParameters
+}
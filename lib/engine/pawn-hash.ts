@@ -0,0 +1,48 @@
+import type { PieceColor, ZobristHash } from "@/lib/chess"
+import type { Tapered } from "./parameters"
+
+// The pawn-structure score of each side
+export type PawnScores = Record<PieceColor, Tapered<number>>
+
+// Bytes per entry across the typed arrays below: check 4, used 1, scores 16
+const ENTRY_BYTES = 21
+
+// Pawn-structure scores by pawn-only Zobrist hash (see pawnZobristHash), indexed by the low half
+// of the hash and checked against the high half. Pawns move rarely in the search, so almost every
+// position finds its pawns already scored. Scores depend on the evaluation parameters, so a table
+// must only ever be used with one parameter set.
+export class PawnHashTable {
+  private readonly mask: number
+  private readonly checks: Uint32Array
+  private readonly used: Uint8Array
+  private readonly scores: Int32Array // white mg, white eg, black mg, black eg
+
+  constructor(megabytes = 1) {
+    const size = 2 ** Math.floor(Math.log2((megabytes * 1024 * 1024) / ENTRY_BYTES))
+    this.mask = size - 1
+    this.checks = new Uint32Array(size)
+    this.used = new Uint8Array(size)
+    this.scores = new Int32Array(size * 4)
+  }
+
+  probe(hash: ZobristHash): PawnScores | null {
+    const index = hash.lo & this.mask
+    if (!this.used[index] || this.checks[index] !== hash.hi) return null
+    const { scores } = this
+    return {
+      white: { mg: scores[4 * index], eg: scores[4 * index + 1] },
+      black: { mg: scores[4 * index + 2], eg: scores[4 * index + 3] },
+    }
+  }
+
+  store(hash: ZobristHash, { white, black }: PawnScores): void {
+    const index = hash.lo & this.mask
+    this.checks[index] = hash.hi
+    this.used[index] = 1
+    this.scores.set([white.mg, white.eg, black.mg, black.eg], 4 * index)
+  }
+
+  clear(): void {
+    this.used.fill(0)
+  }
+}
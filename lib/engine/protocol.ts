@@ -0,0 +1,21 @@
+import type { PositionState, ZobristHash } from "@/lib/chess"
+import type { EvaluationParameters } from "./parameters"
+import type { SearchConfig, SearchInfo, SearchLimits, SearchResult } from "./search"
+
+// Messages to the engine worker. A search runs to completion once started; to abandon one,
+// terminate the worker.
+export interface SearchRequest {
+  type: "search"
+  id: number
+  position: PositionState
+  history: ZobristHash[] // hashes of the positions played before this one, oldest first
+  limits: SearchLimits
+  config?: Partial<SearchConfig>
+  parameters?: EvaluationParameters // a tuned set (see parseParameters) in place of the defaults
+}
+
+export type EngineRequest = SearchRequest
+
+// Messages from the engine worker, tagged with the id of the search they belong to
+export type EngineResponse =
+  ({ type: "progress"; id: number } & SearchInfo) | ({ type: "bestMove"; id: number } & SearchResult)
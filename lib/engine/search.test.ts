@@ -0,0 +1,37 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseFen, Position } from "@/lib/chess"
+import { search } from "./search"
+import { TranspositionTable } from "./transposition"
+
+describe("search", () => {
+  it("finds a mate in one", () => {
+    const result = search(parseFen("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1"), { depth: 3 })
+    assert.ok(result.move)
+    assert.deepEqual(
+      [result.move.from, result.move.to],
+      [
+        { row: 7, col: 0 },
+        { row: 0, col: 0 },
+      ],
+    )
+  })
+
+  it("reports consistent node statistics", () => {
+    const { nodes, stats } = search(Position.initial(), { depth: 4 })
+    assert.ok(nodes > 0)
+    assert.ok(stats.betaCutoffs > 0)
+    assert.ok(stats.firstMoveCutoffs <= stats.betaCutoffs)
+    assert.ok(stats.hashCutoffs <= stats.hashHits)
+    // Iterative deepening revisits the positions of the shallower depths
+    assert.ok(stats.hashHits > 0)
+  })
+
+  it("searches fewer nodes when the transposition table already holds the position", () => {
+    const table = new TranspositionTable()
+    const first = search(Position.initial(), { depth: 4 }, { table })
+    const second = search(Position.initial(), { depth: 4 }, { table })
+    assert.ok(second.nodes < first.nodes)
+    assert.ok(second.stats.hashCutoffs > 0)
+  })
+})
@@ -0,0 +1,387 @@
+import type { Move, PositionState, ZobristHash } from "@/lib/chess"
+import { SearchBoard } from "./board"
+import { MATE_SCORE, PIECE_VALUES, staticEvaluation } from "./evaluate"
+import { DEFAULT_PARAMETERS, type EvaluationParameters } from "./parameters"
+import { PawnHashTable } from "./pawn-hash"
+import { isQuiet, MovePicker, OrderingHeuristics } from "./ordering"
+import { encodeMove, TranspositionTable } from "./transposition"
+
+// Any combination of limits may be given; the search stops at whichever it reaches first
+export interface SearchLimits {
+  depth?: number // plies
+  nodes?: number
+  time?: number // milliseconds
+}
+
+// The search's refinements on plain alpha-beta, each of which can be switched off to measure what
+// it is worth (see scripts/engine-bench.ts)
+export interface SearchConfig {
+  principalVariation: boolean // search moves after the first with a null window, to prove them worse
+  aspirationWindows: boolean // start each depth with a narrow window around the last depth's score
+  nullMove: boolean // pass the move, and prune when the opponent still cannot catch up
+  lateMoveReductions: boolean // search quiet moves late in the ordering less deeply
+  futilityPruning: boolean // skip quiet moves near the horizon that cannot raise the score to alpha
+  checkExtensions: boolean // search a ply deeper when in check
+}
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  principalVariation: true,
+  aspirationWindows: true,
+  nullMove: true,
+  lateMoveReductions: true,
+  futilityPruning: true,
+  checkExtensions: true,
+}
+
+export interface SearchOptions {
+  // Hashes of the positions played before this one, oldest first, for spotting repetitions
+  history?: ZobristHash[]
+  // Kept between searches so later ones can reuse what earlier ones learnt
+  table?: TranspositionTable
+  // Hears about every depth that completes
+  onProgress?: (info: SearchInfo) => void
+  // Overrides for DEFAULT_SEARCH_CONFIG
+  config?: Partial<SearchConfig>
+  // The evaluation's weights, DEFAULT_PARAMETERS unless given
+  parameters?: EvaluationParameters
+  // Like `table`, for the pawn structure; only ever to be used with the same parameters
+  pawnTable?: PawnHashTable
+}
+
+// Counters for judging how well the search prunes; all of them cover the whole search so far
+export interface SearchStats {
+  hashHits: number // nodes whose position was found in the transposition table
+  hashCutoffs: number // nodes settled by the table entry alone
+  betaCutoffs: number
+  firstMoveCutoffs: number // beta cutoffs caused by the first move tried, the mark of good ordering
+  nullMoveCutoffs: number
+  reSearches: number // null-window and reduced searches that had to be repeated in full
+}
+
+export interface SearchInfo {
+  depth: number
+  score: number // from black's point of view, like evaluate()
+  nodes: number
+  time: number // milliseconds since the search started
+  pv: Move[] // the line the engine expects, starting with its move
+  stats: SearchStats
+}
+
+export interface SearchResult extends SearchInfo {
+  move: Move | null
+}
+
+const MAX_DEPTH = 64
+
+// Scores beyond this are mates, found this many plies from the root at most
+const MATE_BOUND = MATE_SCORE - 2 * MAX_DEPTH
+
+// How many nodes pass between looks at the clock
+const TIME_CHECK_INTERVAL = 1024
+
+const INFINITY = MATE_SCORE + 1
+
+// The search stops extending checks and following captures this far from the root
+const MAX_PLY = 128
+
+// The first window is this wide either side of the last depth's score, and grows this many times
+// over each time the score falls outside it
+const ASPIRATION_WINDOW = 25
+const ASPIRATION_GROWTH = 4
+
+// Null-move pruning needs this much depth left, and searches the reply this much shallower
+const NULL_MOVE_MIN_DEPTH = 3
+const nullMoveReduction = (depth: number): number => (depth > 6 ? 3 : 2)
+
+// Late move reductions start with the move after these, at this much depth or more. Moves on the
+// principal variation are reduced a ply less, as a missed move there changes the result.
+const LMR_MOVES = 3
+const LMR_MIN_DEPTH = 3
+const lateMoveReduction = (depth: number, moveNumber: number, isPvNode: boolean): number =>
+  Math.floor((Math.log(depth) * Math.log(moveNumber)) / 2) + (isPvNode ? 0 : 1)
+
+// How far below alpha the static evaluation must be, by depth left, before quiet moves are pruned
+const FUTILITY_MARGINS = [0, 150, 350]
+
+// A capture is skipped in the quiescence search when even winning the piece plus this much
+// could not lift the score to alpha
+const DELTA_MARGIN = 200
+
+// Mate scores count plies from the root, so they are stored relative to the node instead and
+// converted back when read at a different ply
+const toTableScore = (score: number, ply: number): number =>
+  score >= MATE_BOUND ? score + ply : score <= -MATE_BOUND ? score - ply : score
+const fromTableScore = (score: number, ply: number): number =>
+  score >= MATE_BOUND ? score - ply : score <= -MATE_BOUND ? score + ply : score
+
+// Iterative deepening over a negamax alpha-beta search with a transposition table and a quiescence
+// search at the leaves. Scores inside the search are from the side to move's point of view. Each
+// depth starts with the best move of the one before; when a limit cuts a depth short, the last
+// completed depth's move is played.
+export const search = (
+  state: PositionState,
+  limits: SearchLimits,
+  {
+    history = [],
+    table = new TranspositionTable(),
+    onProgress,
+    config: overrides,
+    parameters = DEFAULT_PARAMETERS,
+    pawnTable = new PawnHashTable(),
+  }: SearchOptions = {},
+): SearchResult => {
+  const config = { ...DEFAULT_SEARCH_CONFIG, ...overrides }
+  const startedAt = Date.now()
+  const deadline = limits.time !== undefined ? startedAt + limits.time : Number.POSITIVE_INFINITY
+  const board = new SearchBoard(state, history)
+  const heuristics = new OrderingHeuristics()
+  const stats: SearchStats = {
+    hashHits: 0,
+    hashCutoffs: 0,
+    betaCutoffs: 0,
+    firstMoveCutoffs: 0,
+    nullMoveCutoffs: 0,
+    reSearches: 0,
+  }
+  let nodes = 0
+  let stopped = false
+
+  const outOfBudget = (): boolean => {
+    if (limits.nodes !== undefined && nodes >= limits.nodes) return true
+    return nodes % TIME_CHECK_INTERVAL === 0 && Date.now() >= deadline
+  }
+
+  // The static evaluation from the side to move's point of view
+  const evaluateBoard = (): number => {
+    const score = staticEvaluation(board.board, parameters, pawnTable, board.pawnHash)
+    return board.turn === "black" ? score : -score
+  }
+
+  // Searches captures and queen promotions until the position is quiet, so that the horizon never
+  // falls in the middle of an exchange. The side to move may stand pat on the static evaluation
+  // instead of capturing, except in check, where every evasion is searched.
+  const quiesce = (ply: number, alpha: number, beta: number): number => {
+    if (stopped || (stopped = outOfBudget())) return 0
+    nodes++
+
+    const inCheck = board.isCheck()
+    if (ply >= MAX_PLY) return inCheck ? 0 : evaluateBoard()
+
+    let best = -INFINITY
+    let standPat = -INFINITY
+    if (!inCheck) {
+      standPat = evaluateBoard()
+      if (standPat >= beta) return standPat
+      alpha = Math.max(alpha, standPat)
+      best = standPat
+    }
+
+    const picker = new MovePicker(board.board, board.pseudoLegalMoves(), 0, heuristics, ply, !inCheck)
+    let legalMoves = 0
+    for (let move = picker.next(); move; move = picker.next()) {
+      // Delta pruning: captures that cannot win back enough material are not worth searching
+      if (!inCheck) {
+        const gain =
+          (move.capturedPiece ? PIECE_VALUES[move.capturedPiece.type] : 0) +
+          (move.promotion ? PIECE_VALUES[move.promotion] - PIECE_VALUES.pawn : 0)
+        if (standPat + gain + DELTA_MARGIN <= alpha) continue
+      }
+
+      board.play(move)
+      if (board.leftKingInCheck()) {
+        board.undo()
+        continue
+      }
+      legalMoves++
+      const score = -quiesce(ply + 1, -beta, -alpha)
+      board.undo()
+      if (stopped) return 0
+
+      best = Math.max(best, score)
+      alpha = Math.max(alpha, score)
+      if (alpha >= beta) break
+    }
+
+    if (inCheck && legalMoves === 0) return -(MATE_SCORE - ply)
+    return best
+  }
+
+  // Fills `pv` with the best line found below the current position. Nodes searched with a null
+  // window (beta = alpha + 1) only need to show whether the score is above or below it. Once a
+  // limit is hit every call returns at once, and the scores it hands back are meaningless.
+  const negamax = (depth: number, ply: number, alpha: number, beta: number, pv: Move[], allowNull = true): number => {
+    if (ply > 0 && (board.isRepetition() || board.halfmoveClock >= 100)) return 0
+    if (ply >= MAX_PLY) return evaluateBoard()
+
+    const inCheck = board.isCheck()
+    if (inCheck && config.checkExtensions) depth++
+    if (depth <= 0) return quiesce(ply, alpha, beta)
+
+    if (stopped || (stopped = outOfBudget())) return 0
+    nodes++
+    const isPvNode = beta - alpha > 1
+
+    const entry = table.probe(board.hash)
+    if (entry) stats.hashHits++
+    if (entry && ply > 0 && entry.depth >= depth) {
+      const score = fromTableScore(entry.score, ply)
+      if (
+        entry.bound === "exact" ||
+        (entry.bound === "lower" && score >= beta) ||
+        (entry.bound === "upper" && score <= alpha)
+      ) {
+        stats.hashCutoffs++
+        return score
+      }
+    }
+
+    const staticScore = inCheck || isPvNode ? 0 : evaluateBoard()
+
+    // Null-move pruning: if the opponent, given a free move, still cannot bring the score below
+    // beta, a real move will not either. Not in pawn endings, where having to move can hurt.
+    if (
+      config.nullMove &&
+      allowNull &&
+      !inCheck &&
+      !isPvNode &&
+      depth >= NULL_MOVE_MIN_DEPTH &&
+      staticScore >= beta &&
+      Math.abs(beta) < MATE_BOUND &&
+      board.hasPieces()
+    ) {
+      board.playNull()
+      const score = -negamax(depth - 1 - nullMoveReduction(depth), ply + 1, -beta, -beta + 1, [], false)
+      board.undo()
+      if (stopped) return 0
+      if (score >= beta) {
+        stats.nullMoveCutoffs++
+        return score >= MATE_BOUND ? beta : score
+      }
+    }
+
+    // Futility pruning: close to the horizon and far below alpha, only captures, promotions and
+    // checks could make up the difference
+    const futile =
+      config.futilityPruning &&
+      !inCheck &&
+      !isPvNode &&
+      depth < FUTILITY_MARGINS.length &&
+      Math.abs(alpha) < MATE_BOUND &&
+      staticScore + FUTILITY_MARGINS[depth] <= alpha
+
+    // Moves are checked for legality only when their turn comes, so pruned ones never are
+    const picker = new MovePicker(board.board, board.pseudoLegalMoves(), entry?.move ?? 0, heuristics, ply)
+    const originalAlpha = alpha
+    let best = -INFINITY
+    let bestMove: Move | null = null
+    let legalMoves = 0
+    for (let move = picker.next(); move; move = picker.next()) {
+      board.play(move)
+      if (board.leftKingInCheck()) {
+        board.undo()
+        continue
+      }
+      legalMoves++
+      const givesCheck = board.isCheck()
+      const quiet = isQuiet(move) && !givesCheck
+      if (futile && legalMoves > 1 && quiet) {
+        board.undo()
+        continue
+      }
+
+      const line: Move[] = []
+      const searchMove = (childDepth: number, childAlpha: number, childBeta: number): number => {
+        line.length = 0
+        return -negamax(childDepth, ply + 1, -childBeta, -childAlpha, line)
+      }
+
+      // Late moves are searched shallower first, and moves after the first with a null window;
+      // either is repeated in full when the move turns out better than alpha after all
+      const reduction =
+        config.lateMoveReductions && !inCheck && quiet && legalMoves > LMR_MOVES && depth >= LMR_MIN_DEPTH
+          ? Math.min(depth - 2, lateMoveReduction(depth, legalMoves, isPvNode))
+          : 0
+      let score: number
+      if (legalMoves === 1) {
+        score = searchMove(depth - 1, alpha, beta)
+      } else {
+        score = alpha + 1
+        if (reduction > 0) {
+          score = searchMove(depth - 1 - reduction, alpha, alpha + 1)
+          if (score > alpha) stats.reSearches++
+        }
+        if (score > alpha && config.principalVariation) {
+          score = searchMove(depth - 1, alpha, alpha + 1)
+          if (score > alpha && score < beta) stats.reSearches++
+        }
+        if (score > alpha && (score < beta || !config.principalVariation)) {
+          score = searchMove(depth - 1, alpha, beta)
+        }
+      }
+      board.undo()
+      if (stopped) return 0
+
+      if (score > best) {
+        best = score
+        bestMove = move
+        pv.splice(0, pv.length, move, ...line)
+      }
+      alpha = Math.max(alpha, score)
+      if (alpha >= beta) {
+        stats.betaCutoffs++
+        if (legalMoves === 1) stats.firstMoveCutoffs++
+        heuristics.recordCutoff(move, ply, depth)
+        break
+      }
+    }
+
+    if (legalMoves === 0) return board.isCheck() ? -(MATE_SCORE - ply) : 0 // Checkmate or stalemate
+
+    table.store(board.hash, {
+      depth,
+      bound: best >= beta ? "lower" : best > originalAlpha ? "exact" : "upper",
+      score: toTableScore(best, ply),
+      move: bestMove ? encodeMove(bestMove) : 0,
+    })
+    return best
+  }
+
+  const rootMoves = board.legalMoves()
+  let result: SearchResult = { move: rootMoves[0] ?? null, depth: 0, score: 0, nodes: 0, time: 0, pv: [], stats }
+  if (rootMoves.length <= 1) return result
+
+  let previousScore = 0
+  for (let depth = 1; depth <= (limits.depth ?? MAX_DEPTH); depth++) {
+    const pv: Move[] = []
+
+    // Aspiration windows: a narrow window around the last score cuts off more, and is widened on
+    // the side the score fell out of until the score lands inside it
+    let delta = ASPIRATION_WINDOW
+    const aspirate = config.aspirationWindows && depth > 1 && Math.abs(previousScore) < MATE_BOUND
+    let alpha = aspirate ? previousScore - delta : -INFINITY
+    let beta = aspirate ? previousScore + delta : INFINITY
+    let score = 0
+    for (;;) {
+      pv.length = 0
+      score = negamax(depth, 0, alpha, beta, pv)
+      if (stopped) break
+      if (score <= alpha) alpha = Math.max(-INFINITY, score - delta)
+      else if (score >= beta) beta = Math.min(INFINITY, score + delta)
+      else break
+      stats.reSearches++
+      delta *= ASPIRATION_GROWTH
+    }
+    if (stopped) break
+    previousScore = score
+
+    const blackScore = board.turn === "black" ? score : -score
+    result = { move: pv[0], depth, score: blackScore, nodes, time: Date.now() - startedAt, pv, stats: { ...stats } }
+    onProgress?.(result)
+
+    // A forced mate will not get any better by looking deeper, once the depth covers every move
+    // of it (extensions can find mates beyond the nominal depth, missing shorter ones)
+    if (Math.abs(score) >= MATE_BOUND && MATE_SCORE - Math.abs(score) <= depth) break
+  }
+
+  return { ...result, nodes, time: Date.now() - startedAt, stats }
+}
@@ -0,0 +1,21 @@
+export interface ClockState {
+  remaining: number // milliseconds left on the engine's clock
+  increment: number // milliseconds added after each move
+  movesToGo?: number // moves left until the next time control, when there is one
+}
+
+// Sudden-death games are planned as if this many moves were still to come
+const DEFAULT_MOVES_TO_GO = 30
+
+// Kept back for posting messages to and from the worker and for the clock's one-second ticks
+const SAFETY_MARGIN = 300
+
+const MIN_MOVE_TIME = 50
+
+// Thinking time for one move: an even share of the remaining clock plus most of the increment,
+// but never so much that the flag could fall
+export const allotTime = ({ remaining, increment, movesToGo = DEFAULT_MOVES_TO_GO }: ClockState): number => {
+  const share = remaining / Math.max(1, movesToGo) + increment * 0.75
+  const ceiling = Math.max(MIN_MOVE_TIME, (remaining - SAFETY_MARGIN) / 2)
+  return Math.round(Math.max(MIN_MOVE_TIME, Math.min(share, ceiling)))
+}
@@ -0,0 +1,71 @@
+import type { Move, ZobristHash } from "@/lib/chess"
+
+// How a stored score relates to the position's true score
+export type Bound = "exact" | "lower" | "upper"
+
+export interface TranspositionEntry {
+  depth: number
+  bound: Bound
+  score: number
+  move: number // the best move found, encoded by encodeMove, or 0 when there was none
+}
+
+const BOUNDS: Bound[] = ["exact", "lower", "upper"]
+
+// Bytes per entry across the typed arrays below: check 4, depth 2, bound 1, score 4, move 2
+const ENTRY_BYTES = 13
+
+const PROMOTION_CODES = { knight: 1, bishop: 2, rook: 3, queen: 4 } as const
+
+// Origin, destination and promotion piece packed into 15 bits; never 0 for a real move
+export const encodeMove = (move: Move): number =>
+  (move.from.row * 8 + move.from.col) |
+  ((move.to.row * 8 + move.to.col) << 6) |
+  ((move.promotion ? PROMOTION_CODES[move.promotion as keyof typeof PROMOTION_CODES] : 0) << 12)
+
+// A fixed-size hash table of search results, indexed by the low half of the Zobrist hash and
+// checked against the high half. A new result always replaces an older one for a different
+// position, but only replaces one for the same position when searched at least as deep.
+export class TranspositionTable {
+  private readonly mask: number
+  private readonly checks: Uint32Array
+  private readonly depths: Int16Array
+  private readonly bounds: Uint8Array // index into BOUNDS plus one, so 0 marks an empty slot
+  private readonly scores: Int32Array
+  private readonly moves: Uint16Array
+
+  constructor(megabytes = 16) {
+    const size = 2 ** Math.floor(Math.log2((megabytes * 1024 * 1024) / ENTRY_BYTES))
+    this.mask = size - 1
+    this.checks = new Uint32Array(size)
+    this.depths = new Int16Array(size)
+    this.bounds = new Uint8Array(size)
+    this.scores = new Int32Array(size)
+    this.moves = new Uint16Array(size)
+  }
+
+  probe(hash: ZobristHash): TranspositionEntry | null {
+    const index = hash.lo & this.mask
+    if (this.bounds[index] === 0 || this.checks[index] !== hash.hi) return null
+    return {
+      depth: this.depths[index],
+      bound: BOUNDS[this.bounds[index] - 1],
+      score: this.scores[index],
+      move: this.moves[index],
+    }
+  }
+
+  store(hash: ZobristHash, entry: TranspositionEntry): void {
+    const index = hash.lo & this.mask
+    if (this.bounds[index] !== 0 && this.checks[index] === hash.hi && this.depths[index] > entry.depth) return
+    this.checks[index] = hash.hi
+    this.depths[index] = entry.depth
+    this.bounds[index] = BOUNDS.indexOf(entry.bound) + 1
+    this.scores[index] = entry.score
+    this.moves[index] = entry.move
+  }
+
+  clear(): void {
+    this.bounds.fill(0)
+  }
+}
@@ -0,0 +1,39 @@
+import type { EvaluationParameters } from "./parameters"
+import type { EngineRequest, EngineResponse } from "./protocol"
+import { search } from "./search"
+import { PawnHashTable } from "./pawn-hash"
+import { TranspositionTable } from "./transposition"
+
+const worker = self as unknown as Worker
+
+// Lives as long as the worker, so each search starts from what the previous ones found
+const table = new TranspositionTable()
+const pawnTable = new PawnHashTable()
+
+// Pawn scores depend on the parameters, so a tuned set gets a table of its own, kept for as long
+// as the same set keeps coming
+let tunedPawnTable: { parameters: string; table: PawnHashTable } | null = null
+
+const pawnTableFor = (parameters?: EvaluationParameters): PawnHashTable => {
+  if (!parameters) return pawnTable
+  const key = JSON.stringify(parameters)
+  if (tunedPawnTable?.parameters !== key) tunedPawnTable = { parameters: key, table: new PawnHashTable() }
+  return tunedPawnTable.table
+}
+
+const post = (message: EngineResponse) => worker.postMessage(message)
+
+worker.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const request = event.data
+  if (request.type === "search") {
+    const result = search(request.position, request.limits, {
+      history: request.history,
+      table,
+      pawnTable: pawnTableFor(request.parameters),
+      config: request.config,
+      parameters: request.parameters,
+      onProgress: (info) => post({ type: "progress", id: request.id, ...info }),
+    })
+    post({ type: "bestMove", id: request.id, ...result })
+  }
+}
@@ -0,0 +1,114 @@
+import type { GameResult } from "@/lib/chess"
+import { monthLabel } from "./filters"
+import type { GameSource, ImportedGame } from "./types"
+
+export type ChessComTimeClass = "bullet" | "blitz" | "rapid" | "daily"
+
+export interface ChessComPlayer {
+  username: string
+  rating: number
+  result: string
+  "@id"?: string
+  uuid?: string
+}
+
+// One game from a monthly archive: https://api.chess.com/pub/player/{username}/games/{YYYY}/{MM}
+export interface ChessComGame {
+  url: string
+  pgn: string
+  time_control: string
+  time_class: ChessComTimeClass
+  rules: string
+  end_time: number
+  start_time?: number
+  rated: boolean
+  uuid?: string
+  fen?: string
+  initial_setup?: string
+  tcn?: string
+  eco?: string // URL of the opening's page on Chess.com
+  tournament?: string
+  match?: string
+  accuracies?: {
+    white: number
+    black: number
+  }
+  white: ChessComPlayer
+  black: ChessComPlayer
+}
+
+// Requests go through our own route handler, which caches them (see app/api/chess-com)
+const API_BASE = "/api/chess-com"
+const CHESS_COM_API_BASE = "https://api.chess.com/pub"
+
+// Chess.com result codes that end the game drawn
+const DRAW_RESULTS = ["agreed", "repetition", "stalemate", "insufficient", "50move", "timevsinsufficient"]
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`)
+  }
+  return response.json()
+}
+
+// Monthly archive URLs for a player, oldest first
+export const fetchArchives = async (username: string): Promise<string[]> => {
+  const data = await fetchJson<{ archives: string[] }>(
+    `${API_BASE}/player/${encodeURIComponent(username.toLowerCase())}/games/archives`,
+  )
+  return data.archives
+}
+
+// Games from one monthly archive, newest first. Archive URLs point at Chess.com and are
+// rewritten to go through the proxy.
+export const fetchArchiveGames = async (archiveUrl: string): Promise<ChessComGame[]> => {
+  const data = await fetchJson<{ games: ChessComGame[] }>(archiveUrl.replace(CHESS_COM_API_BASE, API_BASE))
+  return [...data.games].reverse()
+}
+
+// ".../games/2024/05" -> "May 2024"
+export const archiveLabel = (archiveUrl: string): string => {
+  const [year, month] = archiveUrl.split("/").slice(-2).map(Number)
+  return monthLabel(year, month)
+}
+
+const gameResult = (game: ChessComGame): GameResult => {
+  if (game.white.result === "win") return "1-0"
+  if (game.black.result === "win") return "0-1"
+  return DRAW_RESULTS.includes(game.white.result) ? "1/2-1/2" : "*"
+}
+
+// "https://www.chess.com/openings/Italian-Game-Two-Knights" -> "Italian Game Two Knights"
+const openingName = (ecoUrl: string): string => decodeURIComponent(ecoUrl.split("/").pop() ?? "").replace(/-/g, " ")
+
+export const toImportedGame = (game: ChessComGame): ImportedGame => ({
+  id: game.uuid ?? game.url,
+  source: "chess.com",
+  url: game.url,
+  pgn: game.pgn,
+  white: { username: game.white.username, rating: game.white.rating },
+  black: { username: game.black.username, rating: game.black.rating },
+  result: gameResult(game),
+  timeControl: game.time_control,
+  timeClass: game.time_class,
+  rated: game.rated,
+  endTime: game.end_time * 1000,
+  opening: game.eco ? openingName(game.eco) : undefined,
+  accuracies: game.accuracies,
+})
+
+export const chessComSource: GameSource = {
+  id: "chess.com",
+  name: "Chess.com",
+  defaultPlayer: "magnuscarlsen",
+  fetchPeriods: async (username) => {
+    const archives = await fetchArchives(username)
+    return archives.map((archive) => ({ id: archive, label: archiveLabel(archive) }))
+  },
+  fetchGames: async (_username, period) => {
+    const games = await fetchArchiveGames(period.id)
+    return games.map(toImportedGame)
+  },
+}
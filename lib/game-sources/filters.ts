@@ -0,0 +1,33 @@
+import type { PieceColor } from "@/lib/chess"
+import type { GameFilters, ImportedGame, PlayerResult } from "./types"
+
+export const DEFAULT_FILTERS: GameFilters = { timeClass: "all", color: "all", result: "all", rated: "all" }
+
+// 2024, 5 -> "May 2024"
+export const monthLabel = (year: number, month: number): string =>
+  new Date(year, month - 1).toLocaleDateString(undefined, { month: "long", year: "numeric" })
+
+export const playerColor = (game: ImportedGame, username: string): PieceColor | null => {
+  const name = username.toLowerCase()
+  if (game.white.username.toLowerCase() === name) return "white"
+  if (game.black.username.toLowerCase() === name) return "black"
+  return null
+}
+
+// Null while the game is unfinished
+export const playerResult = (game: ImportedGame, color: PieceColor): PlayerResult | null => {
+  if (game.result === "*") return null
+  if (game.result === "1/2-1/2") return "draw"
+  return (game.result === "1-0") === (color === "white") ? "win" : "loss"
+}
+
+export const filterGames = (games: ImportedGame[], username: string, filters: GameFilters): ImportedGame[] => {
+  return games.filter((game) => {
+    const color = playerColor(game, username)
+    if (filters.timeClass !== "all" && game.timeClass !== filters.timeClass) return false
+    if (filters.color !== "all" && color !== filters.color) return false
+    if (filters.result !== "all" && (!color || playerResult(game, color) !== filters.result)) return false
+    if (filters.rated !== "all" && game.rated !== (filters.rated === "rated")) return false
+    return true
+  })
+}
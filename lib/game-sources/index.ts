@@ -0,0 +1,13 @@
+import { chessComSource } from "./chess-com"
+import { lichessSource } from "./lichess"
+import type { GameSource, GameSourceId } from "./types"
+
+export * from "./types"
+export * from "./filters"
+export { chessComSource } from "./chess-com"
+export { createLichessSource, lichessSource } from "./lichess"
+
+export const GAME_SOURCES: Record<GameSourceId, GameSource> = {
+  "chess.com": chessComSource,
+  lichess: lichessSource,
+}
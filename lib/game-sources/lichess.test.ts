@@ -0,0 +1,106 @@
+import assert from "node:assert/strict"
+import { spawn, type ChildProcess } from "node:child_process"
+import { once } from "node:events"
+import { readFile } from "node:fs/promises"
+import { createServer } from "node:net"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+import { createLichessSource, toImportedGame, type LichessGame } from "./lichess"
+import type { GameSource } from "./types"
+
+const FIXTURES = path.join(process.cwd(), "fixtures", "lichess")
+
+const freePort = async (): Promise<number> => {
+  const server = createServer().listen(0)
+  await once(server, "listening")
+  const { port } = server.address() as { port: number }
+  server.close()
+  return port
+}
+
+const savedGame = async (): Promise<LichessGame> =>
+  JSON.parse(await readFile(path.join(FIXTURES, "game", "export", "Xq7fT2bK.json"), "utf8"))
+
+describe("Lichess source against the stand-in server", () => {
+  let standIn: ChildProcess
+  let baseUrl = ""
+  let source: GameSource
+
+  before(async () => {
+    const port = await freePort()
+    standIn = spawn(process.execPath, [path.join("scripts", "lichess-stand-in.mjs")], {
+      env: { ...process.env, PORT: String(port), LICHESS_FIXTURES_DIR: FIXTURES },
+      stdio: ["ignore", "pipe", "inherit"],
+    })
+    // It logs once it is listening
+    await once(standIn.stdout!, "data")
+    baseUrl = `http://localhost:${port}`
+    source = createLichessSource(baseUrl)
+  })
+  after(() => {
+    standIn.kill()
+  })
+
+  it("lists the months since the account was created", async () => {
+    const periods = await source.fetchPeriods("DrNykterstein")
+    assert.deepEqual(periods.slice(0, 3), [
+      { id: "2023-12", label: "December 2023" },
+      { id: "2024-01", label: "January 2024" },
+      { id: "2024-02", label: "February 2024" },
+    ])
+  })
+
+  it("reads a month of games from the export", async () => {
+    const games = await source.fetchGames("DrNykterstein", { id: "2024-01", label: "January 2024" })
+    assert.deepEqual(
+      games.map((game) => [game.id, game.result, game.timeClass]),
+      [
+        ["Xq7fT2bK", "1-0", "blitz"],
+        ["Lm3pQ9wZ", "1/2-1/2", "bullet"],
+      ],
+    )
+    assert.ok(games.every((game) => game.pgn.startsWith("[Event ")))
+    assert.equal(games[0].url, `${baseUrl}/Xq7fT2bK`)
+  })
+
+  it("imports a game from a link, a link without a scheme or an ID", async () => {
+    for (const reference of [
+      "https://lichess.org/Xq7fT2bK",
+      "lichess.org/Xq7fT2bK",
+      "lichess.org/Xq7fT2bKabcd/black",
+      "Xq7fT2bK",
+      " Xq7fT2bK#32 ",
+    ]) {
+      const games = await source.fetchReference!(reference)
+      assert.deepEqual(
+        games?.map((game) => game.id),
+        ["Xq7fT2bK"],
+        reference,
+      )
+    }
+  })
+
+  it("imports every chapter of a study", async () => {
+    const chapters = await source.fetchReference!("lichess.org/study/Ab12Cd34")
+    assert.deepEqual(
+      chapters?.map((chapter) => [chapter.id, chapter.title]),
+      [
+        ["Ef56Gh78", "Lucena position"],
+        ["Ij90Kl12", "Opposition"],
+      ],
+    )
+  })
+
+  it("passes on the server's error and ignores what isn't a reference", async () => {
+    await assert.rejects(source.fetchReference!("Zz9zZz9z"), new Error("Not found"))
+    assert.equal(await source.fetchReference!("not a game"), null)
+    assert.equal(await source.fetchReference!("abcdEFGH/ijklMNOP"), null)
+  })
+})
+
+describe("toImportedGame", () => {
+  it("refuses a game without its PGN", async () => {
+    const { pgn: _, ...game } = await savedGame()
+    assert.throws(() => toImportedGame(game), new Error("Lichess sent game Xq7fT2bK without its PGN"))
+  })
+})
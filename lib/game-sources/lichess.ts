@@ -0,0 +1,206 @@
+import type { GameResult, PieceColor } from "@/lib/chess"
+import { monthLabel } from "./filters"
+import type { GamePeriod, GameSource, ImportedGame, ImportedPlayer, TimeClass } from "./types"
+
+export type LichessSpeed = "ultraBullet" | "bullet" | "blitz" | "rapid" | "classical" | "correspondence"
+
+export interface LichessPlayer {
+  user?: { id: string; name: string; title?: string }
+  rating?: number
+  aiLevel?: number
+  analysis?: { accuracy?: number }
+}
+
+// One game as exported by https://lichess.org/api/games/user/{username} and /game/export/{id}
+export interface LichessGame {
+  id: string
+  rated: boolean
+  variant: string
+  speed: LichessSpeed
+  perf: string
+  createdAt: number
+  lastMoveAt: number
+  status: string
+  players: Record<PieceColor, LichessPlayer>
+  winner?: PieceColor
+  opening?: { eco: string; name: string; ply: number }
+  moves: string
+  pgn?: string
+  clock?: { initial: number; increment: number; totalTime: number }
+  daysPerTurn?: number
+}
+
+// Lichess itself by default; point NEXT_PUBLIC_LICHESS_URL at a stand-in server (see scripts/lichess-stand-in.mjs)
+// to work against saved responses
+export const LICHESS_URL = process.env.NEXT_PUBLIC_LICHESS_URL || "https://lichess.org"
+
+// Exports stream at a limited rate, so a month is capped rather than read in full
+const MAX_GAMES_PER_MONTH = 300
+
+// Game statuses that mean the game never finished
+const UNFINISHED_STATUSES = ["created", "started", "aborted", "unknownFinish"]
+
+const EXPORT_OPTIONS = "pgnInJson=true&clocks=true&opening=true&accuracy=true"
+
+const TIME_CLASSES: Record<LichessSpeed, TimeClass> = {
+  ultraBullet: "bullet",
+  bullet: "bullet",
+  blitz: "blitz",
+  rapid: "rapid",
+  classical: "classical",
+  correspondence: "daily",
+}
+
+// A game link or ID ("https://lichess.org/abcdEFGH", "lichess.org/abcdEFGH", "abcdEFGH/black", the 12-character
+// player ID). A link without a scheme is told from an ID by the dot in its host name.
+const GAME_REFERENCE =
+  /^(?:https?:\/\/[^/]+\/|[^/]+\.[^/]+\/)?([A-Za-z0-9]{8})(?:[A-Za-z0-9]{4})?(?:\/(?:white|black))?\/?(?:#\d+)?$/
+// A study link, optionally to one chapter ("https://lichess.org/study/abcdEFGH/ijklMNOP")
+const STUDY_REFERENCE =
+  /^(?:https?:\/\/[^/]+\/|[^/]+\.[^/]+\/)?study\/([A-Za-z0-9]{8})(?:\/([A-Za-z0-9]{8}))?\/?(?:#\d+)?$/
+
+const request = async (url: string, accept: string): Promise<Response> => {
+  const response = await fetch(url, { headers: { Accept: accept } })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`)
+  }
+  return response
+}
+
+const toImportedPlayer = (player: LichessPlayer): ImportedPlayer => ({
+  username: player.user?.name ?? (player.aiLevel ? `Stockfish level ${player.aiLevel}` : "Anonymous"),
+  rating: player.rating,
+})
+
+const gameResult = (game: LichessGame): GameResult => {
+  if (game.winner) return game.winner === "white" ? "1-0" : "0-1"
+  return UNFINISHED_STATUSES.includes(game.status) ? "*" : "1/2-1/2"
+}
+
+// Replays are read from the PGN, so a game without one is an error rather than an empty board
+export const toImportedGame = (game: LichessGame, baseUrl = LICHESS_URL): ImportedGame => {
+  if (!game.pgn) throw new Error(`Lichess sent game ${game.id} without its PGN`)
+  const { white, black } = game.players
+  return {
+    id: game.id,
+    source: "lichess",
+    url: `${baseUrl}/${game.id}`,
+    pgn: game.pgn,
+    white: toImportedPlayer(white),
+    black: toImportedPlayer(black),
+    result: gameResult(game),
+    timeControl: game.clock ? `${game.clock.initial}+${game.clock.increment}` : "-",
+    timeClass: TIME_CLASSES[game.speed],
+    rated: game.rated,
+    endTime: game.lastMoveAt,
+    opening: game.opening?.name,
+    accuracies:
+      white.analysis?.accuracy !== undefined && black.analysis?.accuracy !== undefined
+        ? { white: white.analysis.accuracy, black: black.analysis.accuracy }
+        : undefined,
+  }
+}
+
+// Tag pairs at the top of a PGN; the moves are left to the PGN parser when the game is opened
+const readTags = (pgn: string): Record<string, string> => {
+  const tags: Record<string, string> = {}
+  for (const [, name, value] of pgn.matchAll(/^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]/gm)) {
+    tags[name] = value.replace(/\\(.)/g, "$1")
+  }
+  return tags
+}
+
+// Study chapters come as one PGN per chapter, each opening with its Event tag
+const splitChapters = (text: string): string[] =>
+  text
+    .split(/\n\s*\n(?=\[Event )/)
+    .map((chapter) => chapter.trim())
+    .filter(Boolean)
+
+const chapterToImportedGame = (pgn: string, index: number, studyId: string, baseUrl: string): ImportedGame => {
+  const tags = readTags(pgn)
+  const url = tags.ChapterURL ?? tags.Site ?? `${baseUrl}/study/${studyId}`
+  const [year, month, day] = (tags.UTCDate ?? "").split(".").map(Number)
+  const result = tags.Result as GameResult
+  return {
+    id: url.split("/").pop() ?? `${studyId}-${index}`,
+    source: "lichess",
+    url,
+    pgn,
+    title: tags.ChapterName ?? tags.Event,
+    white: { username: tags.White ?? "?", rating: Number(tags.WhiteElo) || undefined },
+    black: { username: tags.Black ?? "?", rating: Number(tags.BlackElo) || undefined },
+    result: ["1-0", "0-1", "1/2-1/2"].includes(result) ? result : "*",
+    timeControl: tags.TimeControl ?? "-",
+    rated: false,
+    endTime: year && month && day ? Date.UTC(year, month - 1, day) : undefined,
+    opening: tags.Opening && tags.Opening !== "?" ? tags.Opening : undefined,
+  }
+}
+
+// A Lichess source reading from `baseUrl`, which is Lichess itself unless testing against a stand-in
+export const createLichessSource = (baseUrl = LICHESS_URL): GameSource => {
+  const fetchGame = async (id: string): Promise<ImportedGame> => {
+    const response = await request(`${baseUrl}/game/export/${id}?${EXPORT_OPTIONS}`, "application/json")
+    return toImportedGame(await response.json(), baseUrl)
+  }
+
+  const fetchStudy = async (studyId: string, chapterId?: string): Promise<ImportedGame[]> => {
+    const path = chapterId ? `${studyId}/${chapterId}` : studyId
+    const response = await request(
+      `${baseUrl}/api/study/${path}.pgn?clocks=true&comments=true`,
+      "application/x-chess-pgn",
+    )
+    return splitChapters(await response.text()).map((pgn, index) => chapterToImportedGame(pgn, index, studyId, baseUrl))
+  }
+
+  return {
+    id: "lichess",
+    name: "Lichess",
+    defaultPlayer: "DrNykterstein",
+
+    // Every month since the account was created
+    fetchPeriods: async (username) => {
+      const response = await request(`${baseUrl}/api/user/${encodeURIComponent(username)}`, "application/json")
+      const { createdAt } = (await response.json()) as { createdAt: number }
+      const created = new Date(createdAt)
+      const start = new Date(Date.UTC(created.getUTCFullYear(), created.getUTCMonth()))
+
+      const periods: GamePeriod[] = []
+      for (const date = start; date.getTime() <= Date.now(); date.setUTCMonth(date.getUTCMonth() + 1)) {
+        const year = date.getUTCFullYear()
+        const month = date.getUTCMonth() + 1
+        periods.push({ id: `${year}-${String(month).padStart(2, "0")}`, label: monthLabel(year, month) })
+      }
+      return periods
+    },
+
+    // The NDJSON export, one game per line
+    fetchGames: async (username, period) => {
+      const [year, month] = period.id.split("-").map(Number)
+      const since = Date.UTC(year, month - 1, 1)
+      const until = Date.UTC(year, month, 1) - 1
+      const response = await request(
+        `${baseUrl}/api/games/user/${encodeURIComponent(username)}?since=${since}&until=${until}&max=${MAX_GAMES_PER_MONTH}&${EXPORT_OPTIONS}`,
+        "application/x-ndjson",
+      )
+      const text = await response.text()
+      return text
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => toImportedGame(JSON.parse(line), baseUrl))
+    },
+
+    fetchReference: async (reference) => {
+      const input = reference.trim()
+      const study = input.match(STUDY_REFERENCE)
+      if (study) return fetchStudy(study[1], study[2])
+      const game = input.match(GAME_REFERENCE)
+      if (game) return [await fetchGame(game[1])]
+      return null
+    },
+  }
+}
+
+export const lichessSource = createLichessSource()
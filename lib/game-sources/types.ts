@@ -0,0 +1,56 @@
+import type { GameResult, PieceColor } from "@/lib/chess"
+
+export type GameSourceId = "chess.com" | "lichess"
+
+export type TimeClass = "bullet" | "blitz" | "rapid" | "classical" | "daily"
+
+export interface ImportedPlayer {
+  username: string
+  rating?: number
+}
+
+// A game from any source, reduced to what the game browser, replay and analysis need.
+// The PGN is the source of truth for the moves; the rest is metadata for listing and filtering.
+export interface ImportedGame {
+  id: string
+  source: GameSourceId
+  url: string
+  pgn: string
+  title?: string // shown instead of the players, e.g. a study chapter's name
+  white: ImportedPlayer
+  black: ImportedPlayer
+  result: GameResult
+  timeControl: string // PGN TimeControl form, e.g. "180+2", or "-" when untimed
+  timeClass?: TimeClass
+  rated: boolean
+  endTime?: number // milliseconds since the epoch
+  opening?: string
+  accuracies?: Record<PieceColor, number>
+}
+
+// A month of a player's games
+export interface GamePeriod {
+  id: string
+  label: string
+}
+
+export interface GameSource {
+  id: GameSourceId
+  name: string
+  defaultPlayer: string
+  // Months the player has games in, oldest first
+  fetchPeriods(username: string): Promise<GamePeriod[]>
+  // The player's games from one of their periods, newest first
+  fetchGames(username: string, period: GamePeriod): Promise<ImportedGame[]>
+  // Games behind a pasted link or ID, such as a single game or a study; null when it isn't one of this source's
+  fetchReference?(reference: string): Promise<ImportedGame[] | null>
+}
+
+export type PlayerResult = "win" | "loss" | "draw"
+
+export interface GameFilters {
+  timeClass: TimeClass | "all"
+  color: PieceColor | "all"
+  result: PlayerResult | "all"
+  rated: "rated" | "casual" | "all"
+}
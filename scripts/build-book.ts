@@ -0,0 +1,91 @@
+// Builds a Polyglot opening book from the games in a PGN file, for the computer to play its
+// openings from (see OpeningBook in lib/engine).
+//
+//   pnpm book <games.pgn> [--out public/books/openings.bin] [--max-ply 16]
+//
+// Every move of each game's mainline up to --max-ply goes into the book. A move's weight adds up
+// 2 for each game the side that played it went on to win, 1 for each draw or unfinished game and
+// nothing for a loss, as Polyglot's own book maker counts them. Any other Polyglot book can be
+// used in its place, as long as it is served from public/.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { dirname } from "node:path"
+import { parsePgn, pgnToGame, polyglotHash, zobristKey, type GameResult, type PieceColor } from "../lib/chess"
+import { encodeBookMove } from "../lib/engine"
+
+interface BookEntry {
+  key: string // the position's Polyglot hash as 16 hex digits, which sort like the number
+  move: number
+  weight: number
+}
+
+// Weights are 16 bits, so larger counts are scaled down to fit
+const MAX_WEIGHT = 0xffff
+
+const usage = () => {
+  console.error("Usage: pnpm book <games.pgn> [--out file] [--max-ply n]")
+  process.exit(1)
+}
+
+const readArguments = () => {
+  const options = { file: "", out: "public/books/openings.bin", maxPly: 16 }
+  const args = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+    if (args[i] === "--out" && value) options.out = args[++i]
+    else if (args[i] === "--max-ply" && Number(value) > 0) options.maxPly = Number(args[++i])
+    else if (!args[i].startsWith("--") && !options.file) options.file = args[i]
+    else usage()
+  }
+  if (!options.file) usage()
+  return options
+}
+
+const moveWeight = (result: GameResult, mover: PieceColor): number => {
+  if (result === "1/2-1/2" || result === "*") return 1
+  return (result === "1-0") === (mover === "white") ? 2 : 0
+}
+
+const collectEntries = (text: string, maxPly: number): BookEntry[] => {
+  const entries = new Map<string, BookEntry>()
+  for (const record of parsePgn(text)) {
+    const game = pgnToGame(record)
+    game.moves.slice(0, maxPly).forEach((move, ply) => {
+      const position = game.positions[ply]
+      const key = zobristKey(polyglotHash(position))
+      const encoded = encodeBookMove(move)
+      const entry = entries.get(`${key}:${encoded}`) ?? { key, move: encoded, weight: 0 }
+      entry.weight += moveWeight(record.result, position.turn)
+      entries.set(`${key}:${encoded}`, entry)
+    })
+  }
+  return [...entries.values()].filter((entry) => entry.weight > 0)
+}
+
+const writeBook = (entries: BookEntry[]): Uint8Array => {
+  const scale = Math.min(1, MAX_WEIGHT / Math.max(1, ...entries.map((entry) => entry.weight)))
+  const sorted = [...entries].sort((a, b) => (a.key === b.key ? b.weight - a.weight : a.key < b.key ? -1 : 1))
+
+  const bytes = new Uint8Array(sorted.length * 16)
+  const view = new DataView(bytes.buffer)
+  sorted.forEach((entry, index) => {
+    const offset = index * 16
+    view.setUint32(offset, parseInt(entry.key.slice(0, 8), 16))
+    view.setUint32(offset + 4, parseInt(entry.key.slice(8), 16))
+    view.setUint16(offset + 8, entry.move)
+    view.setUint16(offset + 10, Math.max(1, Math.round(entry.weight * scale)))
+    // The last four bytes hold learning data, which is left at zero
+  })
+  return bytes
+}
+
+const main = () => {
+  const options = readArguments()
+  const entries = collectEntries(readFileSync(options.file, "utf8"), options.maxPly)
+  mkdirSync(dirname(options.out), { recursive: true })
+  writeFileSync(options.out, writeBook(entries))
+  const positions = new Set(entries.map((entry) => entry.key)).size
+  console.log(`Wrote ${entries.length} moves in ${positions} positions to ${options.out}`)
+}
+
+main()
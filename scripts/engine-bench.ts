@@ -0,0 +1,42 @@
+// Measures what each of the search's refinements is worth: searches the benchmark positions with
+// every refinement on, then with each one switched off in turn, and compares nodes and time.
+//
+//   pnpm bench        # depth 6
+//   pnpm bench 8      # any other depth
+
+import { sameSquare } from "../lib/chess"
+import { DEFAULT_SEARCH_CONFIG, runBenchmark, type SearchConfig } from "../lib/engine"
+
+const depth = Number(process.argv[2] ?? 6)
+if (!Number.isInteger(depth) || depth < 1) {
+  console.error(`Expected a depth, got "${process.argv[2]}"`)
+  process.exit(1)
+}
+
+// A shallow run first, so the baseline's time does not include warming up the JIT
+runBenchmark(Math.min(depth, 3))
+
+const baseline = runBenchmark(depth)
+const rows = [{ name: "all on", ...baseline }]
+for (const feature of Object.keys(DEFAULT_SEARCH_CONFIG) as (keyof SearchConfig)[]) {
+  rows.push({ name: `no ${feature}`, ...runBenchmark(depth, { [feature]: false }) })
+}
+
+// Moves that differ from the baseline show where a refinement changes the engine's choices
+const changedMoves = (positions: typeof baseline.positions): number =>
+  positions.filter(({ result }, i) => {
+    const expected = baseline.positions[i].result.move
+    if (!result.move || !expected) return result.move !== expected
+    return !sameSquare(result.move.from, expected.from) || !sameSquare(result.move.to, expected.to)
+  }).length
+
+console.log(`Depth ${depth}, ${baseline.positions.length} positions\n`)
+console.table(
+  rows.map(({ name, nodes, time, positions }) => ({
+    config: name,
+    nodes,
+    "nodes vs all on": `${((100 * nodes) / baseline.nodes).toFixed(0)}%`,
+    "time (ms)": time,
+    "moves changed": changedMoves(positions),
+  })),
+)
@@ -0,0 +1,59 @@
+// A stand-in for the parts of the Lichess API the game browser uses, serving saved responses from
+// fixtures/lichess. Run it with `pnpm lichess:stand-in` and start the app with
+// NEXT_PUBLIC_LICHESS_URL=http://localhost:8081 to browse those games instead of the real ones.
+import { createServer } from "node:http"
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+
+const FIXTURES_DIR = process.env.LICHESS_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "lichess")
+const PORT = Number(process.env.PORT) || 8081
+
+// Lichess paths and the fixture each one is read from; usernames are case-insensitive on Lichess
+const ROUTES = [
+  [/^\/api\/user\/([\w-]+)$/, (name) => `api/user/${name.toLowerCase()}.json`, "application/json"],
+  [/^\/api\/games\/user\/([\w-]+)$/, (name) => `api/games/user/${name.toLowerCase()}.ndjson`, "application/x-ndjson"],
+  [/^\/game\/export\/(\w{8})$/, (id) => `game/export/${id}.json`, "application/json"],
+  [/^\/api\/study\/(\w{8}(?:\/\w{8})?)\.pgn$/, (id) => `api/study/${id}.pgn`, "application/x-chess-pgn"],
+]
+
+// The user export filters on creation time and caps the number of games, like Lichess does
+const filterExport = (text, params) => {
+  const since = Number(params.get("since") ?? 0)
+  const until = Number(params.get("until") ?? Infinity)
+  const max = Number(params.get("max") ?? Infinity)
+  const games = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .filter((line) => {
+      const { createdAt } = JSON.parse(line)
+      return createdAt >= since && createdAt <= until
+    })
+  return games
+    .slice(0, max)
+    .map((line) => `${line}\n`)
+    .join("")
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? "/", `http://localhost:${PORT}`)
+  const route = ROUTES.find(([pattern]) => pattern.test(url.pathname))
+  response.setHeader("Access-Control-Allow-Origin", "*")
+
+  if (!route) {
+    response.writeHead(404, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({ error: "Not found" }))
+    return
+  }
+
+  const [pattern, fixture, contentType] = route
+  try {
+    const text = await readFile(path.join(FIXTURES_DIR, fixture(url.pathname.match(pattern)[1])), "utf8")
+    response.writeHead(200, { "Content-Type": contentType })
+    response.end(contentType === "application/x-ndjson" ? filterExport(text, url.searchParams) : text)
+  } catch {
+    response.writeHead(404, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({ error: "Not found" }))
+  }
+})
+
+server.listen(PORT, () => console.log(`Lichess stand-in serving ${FIXTURES_DIR} on http://localhost:${PORT}`))
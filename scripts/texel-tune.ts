@@ -0,0 +1,155 @@
+// Fits the evaluation's weights to the results of real games (Texel's tuning method): finds the
+// scaling that best turns evaluations into expected scores, then nudges each weight up or down a
+// step at a time for as long as that brings the predictions closer to the results.
+//
+//   pnpm tune <positions file> [--out tuned-parameters.json] [--from parameters.json] [--passes 20]
+//
+// The positions file has one position per line: a FEN (the move counters may be left off) and the
+// game's result as "1-0", "0-1" or "1/2-1/2", or as white's score 1, 0.5 or 0. Anything else on the
+// line is ignored, so EPD collections such as `<fen> c9 "1-0";` work as they are. Positions should
+// be quiet (no captures pending), as the evaluation is used on them without a search.
+//
+// The result is written as JSON, to be read with parseParameters() from lib/engine and passed to
+// search() or evaluate() as their parameters.
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { parseFen, type Board } from "../lib/chess"
+import {
+  DEFAULT_PARAMETERS,
+  flattenParameters,
+  parseParameters,
+  staticEvaluation,
+  unflattenParameters,
+  type EvaluationParameters,
+} from "../lib/engine"
+
+interface LabelledPosition {
+  board: Board
+  result: number // white's score: 1 for a win, 0.5 for a draw, 0 for a loss
+}
+
+const RESULTS: Record<string, number> = { "1-0": 1, "0-1": 0, "1/2-1/2": 0.5 }
+
+const usage = () => {
+  console.error("Usage: pnpm tune <positions file> [--out file] [--from file] [--passes n]")
+  process.exit(1)
+}
+
+const readArguments = () => {
+  const options = { file: "", out: "tuned-parameters.json", from: "", passes: 20 }
+  const args = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+    if (args[i] === "--out" && value) options.out = args[++i]
+    else if (args[i] === "--from" && value) options.from = args[++i]
+    else if (args[i] === "--passes" && Number(value) > 0) options.passes = Number(args[++i])
+    else if (!args[i].startsWith("--") && !options.file) options.file = args[i]
+    else usage()
+  }
+  if (!options.file) usage()
+  return options
+}
+
+const readPositions = (file: string): LabelledPosition[] => {
+  const positions: LabelledPosition[] = []
+  readFileSync(file, "utf8")
+    .split("\n")
+    .forEach((line, index) => {
+      if (!line.trim()) return
+      const fields = line.trim().split(/\s+/)
+      const label = line.match(/1-0|0-1|1\/2-1\/2/)?.[0]
+      const result = label ? RESULTS[label] : Number(fields[fields.length - 1])
+      // A numeric result is the last field, so it can't be taken for a move counter
+      const candidates = label ? fields : fields.slice(0, -1)
+      const counters = candidates.length >= 6 && candidates.slice(4, 6).every((field) => /^\d+$/.test(field))
+      const fen = fields.slice(0, counters ? 6 : 4).join(" ")
+      if (![0, 0.5, 1].includes(result)) throw new Error(`Line ${index + 1}: no result found`)
+      try {
+        positions.push({ board: parseFen(fen).board, result })
+      } catch (error) {
+        throw new Error(`Line ${index + 1}: ${(error as Error).message}`)
+      }
+    })
+  return positions
+}
+
+// The expected score for white of an evaluation from white's point of view, scaled by `k`
+const expectedScore = (score: number, k: number): number => 1 / (1 + 10 ** ((-k * score) / 400))
+
+const meanSquaredError = (positions: LabelledPosition[], parameters: EvaluationParameters, k: number): number => {
+  let total = 0
+  for (const { board, result } of positions) {
+    // staticEvaluation() scores from black's point of view
+    total += (result - expectedScore(-staticEvaluation(board, parameters), k)) ** 2
+  }
+  return total / positions.length
+}
+
+// The scaling constant with the least error, narrowed down a decimal place at a time
+const fitScaling = (positions: LabelledPosition[], parameters: EvaluationParameters): number => {
+  let best = 1
+  for (let step = 0.1, low = 0.1, high = 3; step >= 0.001; step /= 10) {
+    let bestError = Infinity
+    for (let k = low; k <= high + step / 2; k += step) {
+      const error = meanSquaredError(positions, parameters, k)
+      if (error < bestError) {
+        bestError = error
+        best = k
+      }
+    }
+    low = Math.max(step / 10, best - step)
+    high = best + step
+  }
+  return best
+}
+
+const options = readArguments()
+const startedAt = Date.now()
+const positions = readPositions(options.file)
+const initial = options.from ? parseParameters(readFileSync(options.from, "utf8")) : DEFAULT_PARAMETERS
+console.log(`${positions.length} positions from ${options.file}`)
+
+const k = fitScaling(positions, initial)
+const initialError = meanSquaredError(positions, initial, k)
+console.log(`Scaling constant ${k.toFixed(3)}, error ${initialError.toFixed(6)}`)
+
+// Weights that make no difference to any position are left alone after the first pass
+const weights = flattenParameters(initial)
+const inert = new Set<number>()
+let bestError = initialError
+for (let pass = 1; pass <= options.passes; pass++) {
+  let improved = 0
+  for (let i = 0; i < weights.length; i++) {
+    if (inert.has(i)) continue
+    const original = weights[i]
+    let changed = false
+    let unchanged = 0
+    for (const step of [1, -1]) {
+      weights[i] = original + step
+      const error = meanSquaredError(positions, unflattenParameters(weights, initial), k)
+      if (error < bestError) {
+        bestError = error
+        changed = true
+        break
+      }
+      if (error === bestError) unchanged++
+    }
+    if (changed) improved++
+    else weights[i] = original
+    if (pass === 1 && unchanged === 2) inert.add(i)
+  }
+  console.log(`Pass ${pass}: ${improved} weights improved, error ${bestError.toFixed(6)}`)
+  if (improved === 0) break
+}
+
+const tuned = unflattenParameters(weights, initial)
+writeFileSync(options.out, JSON.stringify(tuned, null, 2) + "\n")
+
+const before = flattenParameters(initial)
+const changedWeights = weights.filter((weight, i) => weight !== before[i]).length
+console.log(`\nError before: ${initialError.toFixed(6)}`)
+console.log(
+  `Error after:  ${bestError.toFixed(6)} (${((100 * (initialError - bestError)) / initialError).toFixed(2)}% lower)`,
+)
+console.log(`${changedWeights} of ${weights.length} weights changed, written to ${options.out}`)
+console.log(`Took ${((Date.now() - startedAt) / 1000).toFixed(1)}s`)